@@ -0,0 +1,77 @@
+/**
+ * Tests for circuit breaker state
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreakers } from './circuit-breaker.js';
+
+describe('CircuitBreakers', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open after consecutive failures reach threshold', () => {
+    const breakers = new CircuitBreakers({ failure_threshold: 2, cooldown_ms: 1000 });
+
+    breakers.recordFailure('getProject');
+    expect(breakers.state('getProject')).toBe('closed');
+    expect(breakers.acquire('getProject')).toBe(0);
+
+    breakers.recordFailure('getProject');
+    expect(breakers.state('getProject')).toBe('open');
+    expect(breakers.acquire('getProject')).toBe(1000);
+    expect(breakers.acquire('listProjects')).toBe(0);
+  });
+
+  it('should reset failure count on success', () => {
+    const breakers = new CircuitBreakers({ failure_threshold: 2 });
+
+    breakers.recordFailure('getProject');
+    breakers.recordSuccess('getProject');
+    breakers.recordFailure('getProject');
+
+    expect(breakers.state('getProject')).toBe('closed');
+  });
+
+  it('should admit one trial request after cool-down', () => {
+    const breakers = new CircuitBreakers({ failure_threshold: 1, cooldown_ms: 1000 });
+    breakers.recordFailure('getProject');
+
+    vi.advanceTimersByTime(1000);
+
+    expect(breakers.acquire('getProject')).toBe(0);
+    expect(breakers.state('getProject')).toBe('half-open');
+    expect(breakers.acquire('getProject')).toBeGreaterThan(0);
+
+    breakers.recordSuccess('getProject');
+    expect(breakers.state('getProject')).toBe('closed');
+  });
+
+  it('should reopen when trial request fails', () => {
+    const breakers = new CircuitBreakers({ failure_threshold: 3, cooldown_ms: 1000 });
+    for (let i = 0; i < 3; i++) breakers.recordFailure('getProject');
+    vi.advanceTimersByTime(1000);
+    breakers.acquire('getProject');
+
+    breakers.recordFailure('getProject');
+
+    expect(breakers.state('getProject')).toBe('open');
+    expect(breakers.acquire('getProject')).toBe(1000);
+  });
+
+  it('should stay half-open and free trial slot on release', () => {
+    const breakers = new CircuitBreakers({ failure_threshold: 1, cooldown_ms: 1000 });
+    breakers.recordFailure('getProject');
+    vi.advanceTimersByTime(1000);
+    breakers.acquire('getProject');
+
+    breakers.release('getProject');
+
+    expect(breakers.state('getProject')).toBe('half-open');
+    expect(breakers.acquire('getProject')).toBe(0);
+  });
+});
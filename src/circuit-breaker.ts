@@ -0,0 +1,87 @@
+/**
+ * Circuit breaker state for the circuit breaker interceptor
+ *
+ * Why: When the API degrades, every call waits through the full retry
+ * schedule and tool calls pile up. After repeated failures the breaker opens
+ * and requests fail immediately until a cool-down passes.
+ *
+ * States per breaker key (operationId or host):
+ * - closed: requests pass, consecutive failures are counted
+ * - open: requests are rejected until cool-down ends
+ * - half-open: one trial request passes; success closes, failure reopens
+ */
+
+import type { CircuitBreakerConfig } from './types/profile.js';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30000;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface Breaker {
+  state: CircuitState;
+  failures: number; // Consecutive failures while closed
+  openedAt: number;
+  trialInFlight: boolean; // Half-open lets only one request through
+}
+
+export class CircuitBreakers {
+  private breakers = new Map<string, Breaker>();
+  private failureThreshold: number;
+  private cooldownMs: number;
+
+  constructor(config: Pick<CircuitBreakerConfig, 'failure_threshold' | 'cooldown_ms'> = {}) {
+    this.failureThreshold = config.failure_threshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = config.cooldown_ms ?? DEFAULT_COOLDOWN_MS;
+  }
+
+  /**
+   * Ask to send request; returns ms until next trial when rejected, else 0
+   *
+   * Open breaker turns half-open once cool-down passed, admitting caller as trial.
+   */
+  acquire(key: string): number {
+    const breaker = this.breakers.get(key);
+    if (!breaker || breaker.state === 'closed') return 0;
+
+    if (breaker.state === 'open') {
+      const remaining = breaker.openedAt + this.cooldownMs - Date.now();
+      if (remaining > 0) return remaining;
+      breaker.state = 'half-open';
+      breaker.trialInFlight = false;
+    }
+
+    if (breaker.trialInFlight) return this.cooldownMs;
+    breaker.trialInFlight = true;
+    return 0;
+  }
+
+  recordSuccess(key: string): void {
+    this.breakers.delete(key);
+  }
+
+  /**
+   * Request ended without reaching the API: free trial slot, keep state
+   */
+  release(key: string): void {
+    const breaker = this.breakers.get(key);
+    if (breaker?.state === 'half-open') {
+      breaker.trialInFlight = false;
+    }
+  }
+
+  recordFailure(key: string): void {
+    const breaker = this.breakers.get(key) || { state: 'closed', failures: 0, openedAt: 0, trialInFlight: false };
+    breaker.failures++;
+    if (breaker.state === 'half-open' || breaker.failures >= this.failureThreshold) {
+      breaker.state = 'open';
+      breaker.openedAt = Date.now();
+      breaker.trialInFlight = false;
+    }
+    this.breakers.set(key, breaker);
+  }
+
+  state(key: string): CircuitState {
+    return this.breakers.get(key)?.state ?? 'closed';
+  }
+}
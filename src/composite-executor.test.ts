@@ -52,6 +52,25 @@ describe('CompositeExecutor', () => {
     expect(result.data.project).toEqual({ id: 123, name: 'test' });
   });
 
+  it('paginates steps with pagination config and reports truncation', async () => {
+    httpClient.request = vi.fn(async (_method: string, _path: string, options: any) => ({
+      status: 200,
+      headers: {},
+      body: [{ page: Number(options.params.page || 1) }],
+    }));
+
+    const steps: CompositeStep[] = [
+      { call: 'GET /projects/1/issues', store_as: 'issues', pagination: { type: 'page', max_pages: 2 } },
+    ];
+
+    const result = await executor.execute(steps, {});
+
+    expect(result.data.issues).toEqual([{ page: 1 }, { page: 2 }]);
+    expect(result.pagination).toEqual({
+      issues: { reason: 'max_pages', pages: 2, items: 2, next_params: { page: '3' } },
+    });
+  });
+
   it('stores results at nested paths', async () => {
     const steps: CompositeStep[] = [
       { call: 'GET /projects/1', store_as: 'data.project' },
@@ -10,12 +10,16 @@ import type { HttpClient } from './interceptors.js';
 import type { OperationInfo } from './types/openapi.js';
 import { OpenAPIParser } from './openapi-parser.js';
 import { DAGExecutor, type ExecutionLevel } from './dag-executor.js';
+import { extractHeaderParams } from './header-params.js';
+import { paginate, getPaginationConfig, type PaginatedResponse, type PaginationContinuation } from './paginator.js';
 
 export interface CompositeResult {
   data: Record<string, unknown>;
   completed_steps: number;
   total_steps: number;
   errors?: StepError[];
+  pagination?: Record<string, PaginationContinuation>; // Truncated steps by store_as
+  idempotency_keys?: Record<string, string>; // Keys sent by write steps, by store_as
 }
 
 export interface StepError {
@@ -44,20 +48,23 @@ export class CompositeExecutor {
     steps: CompositeStep[],
     args: Record<string, unknown>,
     allowPartial: boolean = false,
-    httpClient?: HttpClient
+    httpClient?: HttpClient,
+    correlationId?: string
   ): Promise<CompositeResult> {
     // Analyze DAG and get execution levels
     const executionLevels = DAGExecutor.topologicalSort(steps);
 
     const result: Record<string, unknown> = {};
     const errors: StepError[] = [];
+    const pagination: Record<string, PaginationContinuation> = {};
+    const idempotencyKeys: Record<string, string> = {};
     let completedSteps = 0;
 
     // Execute level by level (each level can run in parallel)
     for (const level of executionLevels) {
       // Execute all steps in current level concurrently
       const levelPromises = level.steps.map((step, levelIndex) =>
-        this.executeStep(step, level.stepIndices[levelIndex], args, httpClient)
+        this.executeStep(step, level.stepIndices[levelIndex], args, httpClient, correlationId)
       );
 
       // Wait for all steps in this level to complete
@@ -73,6 +80,12 @@ export class CompositeExecutor {
           // Step completed successfully
           const response = promiseResult.value;
           this.storeResult(result, step.store_as, response.body);
+          if (response.continuation) {
+            pagination[step.store_as] = response.continuation;
+          }
+          if ('idempotencyKey' in response && response.idempotencyKey) {
+            idempotencyKeys[step.store_as] = response.idempotencyKey as string;
+          }
           completedSteps++;
         } else {
           // Step failed
@@ -105,6 +118,8 @@ export class CompositeExecutor {
       completed_steps: completedSteps,
       total_steps: steps.length,
       errors: errors.length > 0 ? errors : undefined,
+      pagination: Object.keys(pagination).length > 0 ? pagination : undefined,
+      idempotency_keys: Object.keys(idempotencyKeys).length > 0 ? idempotencyKeys : undefined,
     };
   }
 
@@ -115,14 +130,16 @@ export class CompositeExecutor {
    * @param stepIndex Original index for error reporting
    * @param args Arguments for parameter substitution
    * @param httpClient Optional HTTP client override
+   * @param correlationId Tool call ID sent by all steps
    * @returns Promise resolving to HTTP response
    */
   private async executeStep(
     step: CompositeStep,
     stepIndex: number,
     args: Record<string, unknown>,
-    httpClient?: HttpClient
-  ): Promise<{ body: unknown }> {
+    httpClient?: HttpClient,
+    correlationId?: string
+  ): Promise<PaginatedResponse> {
     const { method, path, operation } = this.parseCall(step.call);
 
     if (!operation) {
@@ -138,12 +155,19 @@ export class CompositeExecutor {
       throw new Error('HTTP client not provided');
     }
 
-    const response = await client.request(method, resolvedPath, {
+    const requestOptions = {
       params: this.extractQueryParams(operation, args),
+      headers: extractHeaderParams(operation, args),
       operationId: operation.operationId,
-    });
+      servers: operation.servers,
+      correlationId,
+    };
 
-    return response;
+    const pagination = getPaginationConfig(step.pagination, method);
+    if (pagination) {
+      return paginate(client, method, resolvedPath, requestOptions, pagination);
+    }
+    return client.request(method, resolvedPath, requestOptions);
   }
 
   /**
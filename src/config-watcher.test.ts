@@ -0,0 +1,71 @@
+/**
+ * Tests for spec/profile file watcher
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ConfigWatcher } from './config-watcher.js';
+import { ConsoleLogger } from './logger.js';
+
+describe('ConfigWatcher', () => {
+  let dir: string;
+  let watcher: ConfigWatcher;
+  let changes: number;
+
+  const waitFor = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-watcher-'));
+    await fs.writeFile(path.join(dir, 'profile.json'), '{}');
+    await fs.writeFile(path.join(dir, 'other.json'), '{}');
+
+    changes = 0;
+    watcher = new ConfigWatcher(async () => { changes++; }, new ConsoleLogger(), 50);
+  });
+
+  afterEach(async () => {
+    watcher.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should debounce burst of writes into single change', async () => {
+    watcher.watch([path.join(dir, 'profile.json')]);
+
+    await fs.writeFile(path.join(dir, 'profile.json'), '{"a": 1}');
+    await fs.writeFile(path.join(dir, 'profile.json'), '{"a": 2}');
+    await waitFor(200);
+
+    expect(changes).toBe(1);
+  });
+
+  it('should detect atomic save (write temp file + rename)', async () => {
+    watcher.watch([path.join(dir, 'profile.json')]);
+
+    await fs.writeFile(path.join(dir, 'profile.json.tmp'), '{"a": 1}');
+    await fs.rename(path.join(dir, 'profile.json.tmp'), path.join(dir, 'profile.json'));
+    await waitFor(200);
+
+    expect(changes).toBe(1);
+  });
+
+  it('should ignore unwatched files in same directory', async () => {
+    watcher.watch([path.join(dir, 'profile.json')]);
+
+    await fs.writeFile(path.join(dir, 'other.json'), '{"a": 1}');
+    await waitFor(200);
+
+    expect(changes).toBe(0);
+  });
+
+  it('should stop reporting changes after close', async () => {
+    watcher.watch([path.join(dir, 'profile.json')]);
+    watcher.close();
+
+    await fs.writeFile(path.join(dir, 'profile.json'), '{"a": 1}');
+    await waitFor(200);
+
+    expect(changes).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * File watcher for spec/profile hot-reload
+ *
+ * Why directory watches: Editors save atomically (write temp file + rename),
+ * which detaches fs.watch on the file itself. Watching parent directories and
+ * filtering by file name survives that.
+ *
+ * Why debounce: A single save emits several events (change, rename) and
+ * multi-file specs are often updated together. One reload per burst.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Logger } from './logger.js';
+
+const DEFAULT_DEBOUNCE_MS = 300;
+
+export class ConfigWatcher {
+  private watchers = new Map<string, fs.FSWatcher>(); // directory => watcher
+  private files = new Set<string>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private onChange: () => Promise<unknown>,
+    private logger: Logger,
+    private debounceMs: number = DEFAULT_DEBOUNCE_MS
+  ) {}
+
+  /**
+   * Watch given files, replacing previously watched set
+   *
+   * Why replace: Multi-file specs may gain or lose referenced files on reload.
+   */
+  watch(files: string[]): void {
+    this.files = new Set(files.map(file => path.resolve(file)));
+    const directories = new Set([...this.files].map(file => path.dirname(file)));
+
+    for (const [directory, watcher] of this.watchers) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+
+    for (const directory of directories) {
+      if (this.watchers.has(directory)) continue;
+
+      const watcher = fs.watch(directory, (_event, filename) => {
+        if (filename && this.files.has(path.join(directory, filename.toString()))) {
+          this.scheduleChange();
+        }
+      });
+      watcher.on('error', (error) => {
+        this.logger.warn('Config watcher error', { directory, error: error.message });
+      });
+      this.watchers.set(directory, watcher);
+    }
+  }
+
+  /**
+   * Stop watching and cancel pending change
+   */
+  close(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.files.clear();
+  }
+
+  private scheduleChange(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.onChange().catch(error => {
+        this.logger.error('Config change handler failed', error as Error);
+      });
+    }, this.debounceMs);
+  }
+}
@@ -24,7 +24,9 @@ export const TIME = {
  */
 export const HTTP_STATUS = {
   OK: 200,
+  NO_CONTENT: 204,
   MULTIPLE_CHOICES: 300,
+  NOT_MODIFIED: 304,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
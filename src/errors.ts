@@ -73,6 +73,13 @@ export class NetworkError extends MCPError {
   }
 }
 
+export class TimeoutError extends MCPError {
+  constructor(message: string, timeoutMs: number, details?: Record<string, unknown>) {
+    super(message, 'TIMEOUT_ERROR', { timeoutMs, ...details });
+    this.name = 'TimeoutError';
+  }
+}
+
 export class ConfigurationError extends MCPError {
   constructor(message: string, details?: Record<string, unknown>) {
     super(message, 'CONFIGURATION_ERROR', details);
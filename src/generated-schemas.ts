@@ -1,12 +1,6 @@
 // Generated by ts-to-zod
 import { z } from "zod";
 
-export const compositeStepSchema = z.object({
-    call: z.string(),
-    store_as: z.string(),
-    depends_on: z.array(z.string()).optional()
-});
-
 export const parameterDefinitionSchema = z.object({
     type: z.union([z.literal("string"), z.literal("integer"), z.literal("number"), z.literal("boolean"), z.literal("array"), z.literal("object")]),
     description: z.string(),
@@ -20,22 +14,124 @@ export const parameterDefinitionSchema = z.object({
     example: z.unknown().optional()
 });
 
-export const baseUrlConfigSchema = z.object({
-    value_from_env: z.string(),
-    default: z.string().optional()
+export const paginationConfigSchema = z.object({
+    type: z.union([z.literal("link"), z.literal("page"), z.literal("offset"), z.literal("cursor")]),
+    actions: z.array(z.string()).optional(),
+    items_path: z.string().optional(),
+    max_pages: z.number().optional(),
+    max_items: z.number().optional(),
+    page_size: z.number().optional(),
+    page_param: z.string().optional(),
+    per_page_param: z.string().optional(),
+    total_pages_header: z.string().optional(),
+    offset_param: z.string().optional(),
+    limit_param: z.string().optional(),
+    cursor_param: z.string().optional(),
+    next_cursor_path: z.string().optional(),
+    next_cursor_header: z.string().optional()
+});
+
+export const compositeStepSchema = z.object({
+    call: z.string(),
+    store_as: z.string(),
+    depends_on: z.array(z.string()).optional(),
+    pagination: paginationConfigSchema.optional()
 });
 
 export const rateLimitConfigSchema = z.object({
     max_requests_per_minute: z.number(),
     overrides: z.record(z.string(), z.object({
         max_requests_per_minute: z.number()
+    })).optional(),
+    adaptive: z.boolean().optional(),
+    reserve_ratio: z.number().optional(),
+    max_wait_ms: z.number().optional()
+});
+
+export const upstreamLimitConfigSchema = z.object({
+    max_in_flight: z.number().optional(),
+    max_requests_per_minute: z.number().optional(),
+    queue_timeout_ms: z.number().optional()
+});
+
+export const timeoutConfigSchema = z.object({
+    request_ms: z.number().optional(),
+    total_ms: z.number().optional(),
+    overrides: z.record(z.string(), z.object({
+        request_ms: z.number().optional(),
+        total_ms: z.number().optional()
     })).optional()
 });
 
 export const retryConfigSchema = z.object({
     max_attempts: z.number(),
-    backoff_ms: z.array(z.number()),
-    retry_on_status: z.array(z.number())
+    backoff_ms: z.array(z.number()).optional(),
+    retry_on_status: z.array(z.number()),
+    retry_methods: z.array(z.string()).optional(),
+    base_delay_ms: z.number().optional(),
+    max_delay_ms: z.number().optional(),
+    jitter: z.boolean().optional(),
+    max_retry_after_ms: z.number().optional()
+});
+
+export const cacheConfigSchema = z.object({
+    ttl_seconds: z.number(),
+    max_entries: z.number().optional(),
+    max_bytes: z.number().optional(),
+    overrides: z.record(z.string(), z.object({
+        ttl_seconds: z.number()
+    })).optional()
+});
+
+export const dedupConfigSchema = z.object({
+    exclude_operations: z.array(z.string()).optional()
+});
+
+export const circuitBreakerConfigSchema = z.object({
+    scope: z.union([z.literal("operation"), z.literal("host")]).optional(),
+    failure_threshold: z.number().optional(),
+    cooldown_ms: z.number().optional()
+});
+
+export const idempotencyKeyScopeSchema = z.union([z.literal("call"), z.literal("arguments")]);
+
+export const idempotencyConfigSchema = z.object({
+    header_name: z.string().optional(),
+    scope: idempotencyKeyScopeSchema.optional(),
+    operations: z.record(z.string(), z.object({
+        header_name: z.string().optional(),
+        scope: idempotencyKeyScopeSchema.optional()
+    }))
+});
+
+export const headersConfigSchema = z.object({
+    values: z.record(z.string(), z.string()).optional(),
+    operations: z.record(z.string(), z.record(z.string(), z.string())).optional(),
+    sensitive: z.array(z.string()).optional()
+});
+
+export const proxyConfigSchema = z.object({
+    url: z.string().optional(),
+    no_proxy: z.array(z.string()).optional()
+});
+
+export const tlsClientConfigSchema = z.object({
+    ca_file: z.string().optional(),
+    cert_file: z.string().optional(),
+    key_file: z.string().optional(),
+    passphrase_from_env: z.string().optional()
+});
+
+export const tlsConfigSchema = tlsClientConfigSchema.extend({
+    overrides: z.record(z.string(), tlsClientConfigSchema).optional()
+});
+
+export const connectionPoolConfigSchema = z.object({
+    max_connections_per_origin: z.number().optional(),
+    keep_alive_timeout_ms: z.number().optional(),
+    keep_alive_max_timeout_ms: z.number().optional(),
+    pipelining: z.number().optional(),
+    http2: z.boolean().optional()
 });
 
 export const oAuthConfigSchema = z.object({
@@ -50,6 +146,11 @@ export const oAuthConfigSchema = z.object({
     revocation_endpoint: z.string().optional()
 });
 
+export const serverVariableConfigSchema = z.object({
+    value_from_env: z.string().optional(),
+    default: z.string().optional()
+});
+
 export const toolDefinitionSchema = z.object({
     name: z.string(),
     description: z.string(),
@@ -59,7 +160,8 @@ export const toolDefinitionSchema = z.object({
     partial_results: z.boolean().optional(),
     parameters: z.record(z.string(), parameterDefinitionSchema),
     metadata_params: z.array(z.string()).optional(),
-    response_fields: z.record(z.string(), z.array(z.string())).optional()
+    response_fields: z.record(z.string(), z.array(z.string())).optional(),
+    pagination: paginationConfigSchema.optional()
 });
 
 export const authInterceptorSchema = z.object({
@@ -74,11 +176,30 @@ export const authInterceptorSchema = z.object({
     validation_timeout_ms: z.number().optional()
 });
 
+export const baseUrlConfigSchema = z.object({
+    value_from_env: z.string().optional(),
+    default: z.string().optional(),
+    server_index: z.number().optional(),
+    server_description: z.string().optional(),
+    variables: z.record(z.string(), serverVariableConfigSchema).optional(),
+    operation_servers: z.boolean().optional()
+});
+
 export const interceptorConfigSchema = z.object({
     auth: z.union([authInterceptorSchema, z.array(authInterceptorSchema)]).optional(),
     base_url: baseUrlConfigSchema.optional(),
     rate_limit: rateLimitConfigSchema.optional(),
+    upstream_limit: upstreamLimitConfigSchema.optional(),
     retry: retryConfigSchema.optional(),
+    cache: cacheConfigSchema.optional(),
+    dedup: dedupConfigSchema.optional(),
+    circuit_breaker: circuitBreakerConfigSchema.optional(),
+    timeout: timeoutConfigSchema.optional(),
+    idempotency: idempotencyConfigSchema.optional(),
+    headers: headersConfigSchema.optional(),
+    proxy: proxyConfigSchema.optional(),
+    tls: tlsConfigSchema.optional(),
+    connection_pool: connectionPoolConfigSchema.optional(),
     array_format: z.union([z.literal("brackets"), z.literal("indices"), z.literal("repeat"), z.literal("comma")]).optional()
 });
 
@@ -0,0 +1,66 @@
+/**
+ * Tests for header and cookie parameters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractHeaderParams, findSensitiveParams } from './header-params.js';
+import type { OperationInfo, ParameterInfo } from './types/openapi.js';
+
+function operation(parameters: Array<Partial<ParameterInfo> & Pick<ParameterInfo, 'name' | 'in'>>): OperationInfo {
+  return {
+    operationId: 'listItems',
+    method: 'get',
+    path: '/items',
+    parameters: parameters.map(p => ({ required: false, schema: { type: 'string' }, ...p })),
+    responses: {},
+  } as OperationInfo;
+}
+
+describe('extractHeaderParams', () => {
+  it('should route header and cookie arguments into headers', () => {
+    const op = operation([
+      { name: 'X-Api-Version', in: 'header' },
+      { name: 'X-Tags', in: 'header' },
+      { name: 'session_id', in: 'cookie' },
+      { name: 'theme', in: 'cookie' },
+      { name: 'page', in: 'query' },
+    ]);
+
+    const headers = extractHeaderParams(op, {
+      'X-Api-Version': 2,
+      'X-Tags': ['a', 'b'],
+      session_id: 'abc 123',
+      theme: 'dark',
+      page: 1,
+    });
+
+    expect(headers).toEqual({
+      'X-Api-Version': '2',
+      'X-Tags': 'a,b',
+      Cookie: 'session_id=abc%20123; theme=dark',
+    });
+  });
+
+  it('should ignore reserved headers and missing arguments', () => {
+    const op = operation([
+      { name: 'Authorization', in: 'header' },
+      { name: 'X-Request-Id', in: 'header' },
+    ]);
+
+    expect(extractHeaderParams(op, { Authorization: 'Bearer x' })).toEqual({});
+  });
+});
+
+describe('findSensitiveParams', () => {
+  it('should flag secret-looking names, password formats and cookies', () => {
+    const op = operation([
+      { name: 'X-Session-Token', in: 'header' },
+      { name: 'X-Pin', in: 'header', schema: { type: 'string', format: 'password' } },
+      { name: 'X-Api-Version', in: 'header' },
+      { name: 'prefs', in: 'cookie' },
+      { name: 'api_key', in: 'query' },
+    ]);
+
+    expect(findSensitiveParams([op]).sort()).toEqual(['cookie', 'x-pin', 'x-session-token']);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Header and cookie parameters from OpenAPI operations
+ *
+ * Why: Operations may take API versions, tenant IDs or session cookies as
+ * header/cookie parameters. Tool arguments for them must become request
+ * headers (or the Cookie header), never JSON body fields.
+ */
+
+import type { OperationInfo, ParameterInfo } from './types/openapi.js';
+
+// OpenAPI: header parameters with these names SHALL be ignored (handled by media types and auth)
+const IGNORED_HEADER_PARAMS = ['accept', 'content-type', 'authorization'];
+
+const SENSITIVE_PARAM_PATTERN = /token|secret|passw|session|api[-_]?key|auth|credential|signature|cookie/i;
+
+/**
+ * Header or cookie parameter the tool should expose
+ */
+export function isHeaderParam(param: ParameterInfo): boolean {
+  if (param.in === 'cookie') return true;
+  return param.in === 'header' && !IGNORED_HEADER_PARAMS.includes(param.name.toLowerCase());
+}
+
+/**
+ * Build request headers from header and cookie arguments
+ *
+ * Arrays use OpenAPI simple style (comma-separated). Cookie values are
+ * URI-encoded and joined into one Cookie header.
+ */
+export function extractHeaderParams(
+  operation: OperationInfo,
+  args: Record<string, unknown>
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const cookies: string[] = [];
+
+  for (const param of operation.parameters) {
+    const value = args[param.name];
+    if (value === undefined || !isHeaderParam(param)) continue;
+
+    const serialized = Array.isArray(value) ? value.map(String).join(',') : String(value);
+    if (param.in === 'cookie') {
+      cookies.push(`${param.name}=${encodeURIComponent(serialized)}`);
+    } else {
+      headers[param.name] = serialized;
+    }
+  }
+
+  if (cookies.length > 0) {
+    headers['Cookie'] = cookies.join('; ');
+  }
+  return headers;
+}
+
+/**
+ * Header/cookie parameter names whose values must not appear in logs
+ *
+ * Why by name: Specs rarely mark secrets; names like X-Session-Token or
+ * api_key are a reliable hint. Password-format schemas count too. Cookie
+ * header itself is listed whenever operations take cookies.
+ */
+export function findSensitiveParams(operations: OperationInfo[]): string[] {
+  const names = new Set<string>();
+
+  for (const operation of operations) {
+    for (const param of operation.parameters) {
+      if (!isHeaderParam(param)) continue;
+      if (param.in === 'cookie') names.add('cookie');
+      if (SENSITIVE_PARAM_PATTERN.test(param.name) || param.schema.format === 'password') {
+        names.add(param.name.toLowerCase());
+      }
+    }
+  }
+
+  return [...names];
+}
@@ -0,0 +1,82 @@
+/**
+ * Templated values of configured request headers
+ *
+ * Why templates: API versions and User-Agent are fixed, but tenant IDs come
+ * from the environment and tracing IDs differ per request. Placeholders:
+ * - ${env:NAME}: environment variable (must be set)
+ * - ${session.KEY}: session data, e.g. ${session.id} (HTTP transport only)
+ * - ${correlation_id}: ID of the tool call, same as in its logs and error messages
+ */
+
+import { ConfigurationError } from './errors.js';
+import type { HeadersConfig } from './types/profile.js';
+
+const PLACEHOLDER_PATTERN = /\$\{([^}]+)\}/g;
+
+export interface HeaderTemplateContext {
+  session: Record<string, string>;
+  correlationId: string;
+}
+
+/**
+ * Configured headers for operation: global values, overridden per operation
+ */
+export function configuredHeaders(config: HeadersConfig, operationId?: string): Record<string, string> {
+  const operation = operationId ? config.operations?.[operationId] : undefined;
+  return { ...config.values, ...operation };
+}
+
+/**
+ * Substitute placeholders in header value
+ *
+ * Returns undefined when session data is missing (e.g., ${session.id} under
+ * stdio), so header is skipped instead of sent empty. Unset env vars and
+ * unknown placeholders are configuration errors.
+ */
+export function renderHeaderTemplate(
+  name: string,
+  template: string,
+  context: HeaderTemplateContext
+): string | undefined {
+  let missing = false;
+
+  const value = template.replace(PLACEHOLDER_PATTERN, (_match, expression: string) => {
+    const key = expression.trim();
+
+    if (key === 'correlation_id') {
+      return context.correlationId;
+    }
+
+    if (key.startsWith('env:')) {
+      const envVarName = key.slice('env:'.length);
+      const envValue = process.env[envVarName];
+      if (envValue === undefined) {
+        throw new ConfigurationError(
+          `Header ${name} references unset environment variable ${envVarName}`,
+          { header: name, envVar: envVarName }
+        );
+      }
+      return envValue;
+    }
+
+    if (key.startsWith('session.')) {
+      const sessionValue = context.session[key.slice('session.'.length)];
+      if (sessionValue === undefined) {
+        missing = true;
+        return '';
+      }
+      return sessionValue;
+    }
+
+    throw new ConfigurationError(`Header ${name} has unknown placeholder \${${key}}`, { header: name });
+  });
+
+  return missing ? undefined : value;
+}
+
+/**
+ * Does template render differently for every request (${correlation_id})?
+ */
+export function isPerRequestTemplate(template: string): boolean {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)].some(([, expression]) => expression.trim() === 'correlation_id');
+}
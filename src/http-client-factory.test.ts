@@ -5,9 +5,10 @@ import type { Profile } from './types/profile.js';
 
 // Mock dependencies
 vi.mock('./interceptors.js', () => ({
-  InterceptorChain: vi.fn().mockImplementation((interceptors, token) => ({
+  InterceptorChain: vi.fn().mockImplementation((interceptors, token, options) => ({
     interceptors,
     token,
+    options,
   })),
   HttpClient: vi.fn().mockImplementation((baseUrl, interceptors) => ({
     baseUrl,
@@ -85,6 +86,23 @@ describe('HttpClientFactory', () => {
     it('should throw if session client not found', () => {
       expect(() => factory.getSessionClient('non-existent')).toThrow(ConfigurationError);
     });
+
+    it('should share one response cache between sessions until clients are cleared', () => {
+      const profile: Profile = { ...mockProfile, interceptors: { ...mockProfile.interceptors, cache: { ttl_seconds: 60 } } };
+      const create = (sessionId: string) => factory.getOrCreateSessionClient(sessionId, {
+        profile,
+        baseUrl: 'https://api.example.com',
+        sessionToken: `${sessionId}-token`,
+      }) as any;
+
+      const cache1 = create('session-1').interceptors.options.responseCache;
+      const cache2 = create('session-2').interceptors.options.responseCache;
+      expect(cache1).toBeDefined();
+      expect(cache2).toBe(cache1);
+
+      factory.clearClients();
+      expect(create('session-1').interceptors.options.responseCache).not.toBe(cache1);
+    });
   });
 
   describe('cleanupSessionClient', () => {
@@ -5,7 +5,14 @@
  * Provides consistent client lifecycle, auth handling, and caching
  */
 
-import { InterceptorChain, HttpClient } from './interceptors.js';
+import { InterceptorChain, HttpClient, type InterceptorChainOptions } from './interceptors.js';
+import { ResponseCache } from './response-cache.js';
+import { CircuitBreakers } from './circuit-breaker.js';
+import { UpstreamLimiter } from './upstream-limiter.js';
+import { UpstreamQuotas } from './upstream-quota.js';
+import type { OutboundAgents } from './outbound-agents.js';
+import type { Dispatcher } from 'undici';
+import type { MetricsCollector } from './metrics.js';
 import type { Profile } from './types/profile.js';
 import { ConfigurationError, AuthenticationError } from './errors.js';
 
@@ -13,6 +20,7 @@ export interface HttpClientConfig {
   profile: Profile;
   baseUrl: string;
   sessionToken?: string;
+  session?: Record<string, string>; // Values for ${session.*} header templates
 }
 
 /**
@@ -23,12 +31,25 @@ export class HttpClientFactory {
   private globalClient?: HttpClient;
   private sessionClients = new Map<string, HttpClient>();
 
+  // Why one object shared by all chains: global client is created before
+  // HTTP transport (and its metrics) starts; chains read it per request
+  private chainOptions: InterceptorChainOptions = { inFlightRequests: new Map() };
+  private agents?: OutboundAgents;
+
+  /**
+   * Dispatcher (proxy, CAs, client certificate) for outbound request to url
+   *
+   * Why arrow property: Passed to clients, token validation and OAuth provider;
+   * always reads current agents, so they follow profile reloads.
+   */
+  readonly dispatcherFor = (url: string): Dispatcher | undefined => this.agents?.dispatcherFor(url);
+
   /**
    * Create global HTTP client (for stdio transport)
    */
   createGlobalClient(config: HttpClientConfig): HttpClient {
     const interceptors = this.createInterceptorChain(config);
-    const client = new HttpClient(config.baseUrl, interceptors);
+    const client = new HttpClient(config.baseUrl, interceptors, this.dispatcherFor);
     this.globalClient = client;
     return client;
   }
@@ -45,7 +66,7 @@ export class HttpClientFactory {
 
     // Create new client for session
     const interceptors = this.createInterceptorChain(config);
-    const newClient = new HttpClient(config.baseUrl, interceptors);
+    const newClient = new HttpClient(config.baseUrl, interceptors, this.dispatcherFor);
 
     // Double-check for race condition
     const existingClient = this.sessionClients.get(sessionId);
@@ -86,6 +107,41 @@ export class HttpClientFactory {
     return this.sessionClients.delete(sessionId);
   }
 
+  /**
+   * Drop all clients (global and per-session)
+   *
+   * Why: After profile reload, cached clients carry old interceptors.
+   * Session clients are recreated lazily with the session's token.
+   * Cached responses, breaker, upstream limiter and quota states go too - limits or base URL may have changed.
+   */
+  clearClients(): void {
+    this.globalClient = undefined;
+    this.sessionClients.clear();
+    this.chainOptions.responseCache = undefined;
+    this.chainOptions.circuitBreakers = undefined;
+    this.chainOptions.upstreamLimiter = undefined;
+    this.chainOptions.upstreamQuotas = undefined;
+  }
+
+  /**
+   * Use proxy/TLS agents of new profile; pooled connections of previous ones are closed
+   */
+  setAgents(agents: OutboundAgents): void {
+    const previous = this.agents;
+    this.agents = agents;
+    // Why ignore errors: Closing only drains idle connections of agents no longer used
+    previous?.close().catch(() => undefined);
+  }
+
+  /**
+   * Report interceptor metrics (cache, deduplication, circuit breakers), connection pools and upstream quotas to collector
+   */
+  setMetrics(metrics: MetricsCollector | undefined): void {
+    this.chainOptions.metrics = metrics;
+    metrics?.observeConnectionPools(() => this.agents?.poolStats() ?? []);
+    metrics?.observeUpstreamQuotas(() => this.chainOptions.upstreamQuotas?.stats() ?? []);
+  }
+
   /**
    * Check if global client exists
    */
@@ -131,7 +187,25 @@ export class HttpClientFactory {
    */
   private createInterceptorChain(config: HttpClientConfig): InterceptorChain {
     const token = this.getAuthToken(config);
-    return new InterceptorChain(config.profile.interceptors || {}, token);
+    const interceptors = config.profile.interceptors || {};
+
+    if (interceptors.cache && !this.chainOptions.responseCache) {
+      this.chainOptions.responseCache = new ResponseCache(interceptors.cache);
+    }
+
+    if (interceptors.circuit_breaker && !this.chainOptions.circuitBreakers) {
+      this.chainOptions.circuitBreakers = new CircuitBreakers(interceptors.circuit_breaker);
+    }
+
+    if (interceptors.upstream_limit && !this.chainOptions.upstreamLimiter) {
+      this.chainOptions.upstreamLimiter = new UpstreamLimiter(interceptors.upstream_limit);
+    }
+
+    if (interceptors.rate_limit?.adaptive && !this.chainOptions.upstreamQuotas) {
+      this.chainOptions.upstreamQuotas = new UpstreamQuotas(interceptors.rate_limit.reserve_ratio);
+    }
+
+    return new InterceptorChain(interceptors, token, this.chainOptions, config.session);
   }
 
   /**
@@ -388,6 +388,21 @@ describe('HttpTransport', () => {
       expect(response.status).toBe(405);
       expect(response.body).toHaveProperty('error', 'Method Not Allowed');
     });
+
+    it('should push broadcast messages to open SSE streams', () => {
+      const sessionId = (transport as any).createSession();
+      const written: string[] = [];
+      const res = {
+        setHeader: () => {},
+        write: (chunk: string) => written.push(chunk),
+        on: () => {},
+      };
+      (transport as any).startSSEStream(res, sessionId);
+
+      transport.broadcast({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+
+      expect(written.join('')).toContain('data: {"jsonrpc":"2.0","method":"notifications/tools/list_changed"}');
+    });
   });
 
   describe('Legacy /sse alias (deprecated)', () => {
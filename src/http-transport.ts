@@ -54,7 +54,7 @@ export class HttpTransport {
     
     // Initialize OAuth provider if configured
     if (config.oauthConfig) {
-      this.oauthProvider = new ExternalOAuthProvider(config.oauthConfig, logger);
+      this.oauthProvider = new ExternalOAuthProvider(config.oauthConfig, logger, config.dispatcherFor);
       this.logger.info('OAuth provider initialized');
     }
     
@@ -467,6 +467,7 @@ export class HttpTransport {
         method,
         headers,
         signal: controller.signal,
+        dispatcher: this.config.dispatcherFor?.(url.toString()),
       });
 
       clearTimeout(timeoutId);
@@ -907,7 +908,7 @@ export class HttpTransport {
     };
 
     // Send to all active streams for this session
-    for (const [streamId, streamState] of session.sseStreams) {
+    for (const [, streamState] of session.sseStreams) {
       if (streamState.active) {
         // Queue for resumability
         streamState.messageQueue.push(queuedMessage);
@@ -916,10 +917,24 @@ export class HttpTransport {
         if (streamState.messageQueue.length > 100) {
           streamState.messageQueue.shift();
         }
+
+        streamState.response.write(`id: ${eventId}\n`);
+        streamState.response.write(`data: ${JSON.stringify(message)}\n\n`);
       }
     }
   }
 
+  /**
+   * Send message to all sessions via SSE
+   * 
+   * Why: Server-wide notifications (e.g., tools/list_changed after reload)
+   */
+  public broadcast(message: unknown): void {
+    for (const sessionId of this.sessions.keys()) {
+      this.sendToClient(sessionId, message);
+    }
+  }
+
 
   /**
    * Determine message type (request, notification, response)
@@ -1086,6 +1101,15 @@ export class HttpTransport {
     return session?.authToken;
   }
 
+  /**
+   * Get metrics collector (null when METRICS_ENABLED is off)
+   *
+   * Why public: Interceptors record API cache metrics into the same registry
+   */
+  public getMetricsCollector(): MetricsCollector | null {
+    return this.metrics;
+  }
+
   /**
    * Set message handler for processing incoming JSON-RPC messages
    */
@@ -0,0 +1,35 @@
+/**
+ * Tests for idempotency key generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createIdempotencyKey } from './idempotency.js';
+import { FilePart } from './request-body.js';
+
+describe('createIdempotencyKey', () => {
+  const input = { token: 'token-a', method: 'POST', url: 'https://api.example.com/issues', body: { title: 'a' } };
+
+  it('should generate random key per call', () => {
+    expect(createIdempotencyKey('call', input)).not.toBe(createIdempotencyKey('call', input));
+  });
+
+  it('should derive stable key from arguments without exposing token', () => {
+    const key = createIdempotencyKey('arguments', input);
+
+    expect(createIdempotencyKey('arguments', { ...input, method: 'post' })).toBe(key);
+    expect(createIdempotencyKey('arguments', { ...input, token: 'token-b' })).not.toBe(key);
+    expect(createIdempotencyKey('arguments', { ...input, body: { title: 'b' } })).not.toBe(key);
+    expect(key).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('should derive key from file contents, not only name and size', () => {
+    const upload = (content: string) => ({
+      ...input,
+      body: { file: new FilePart(Buffer.from(content), 'a.txt', 'text/plain'), attachments: [new FilePart(Buffer.from('x'), 'b.txt', 'text/plain')] },
+    });
+    const key = createIdempotencyKey('arguments', upload('first'));
+
+    expect(createIdempotencyKey('arguments', upload('first'))).toBe(key);
+    expect(createIdempotencyKey('arguments', upload('other'))).not.toBe(key);
+  });
+});
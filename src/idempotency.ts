@@ -0,0 +1,63 @@
+/**
+ * Idempotency keys for write operations
+ *
+ * Why: A POST that timed out may have been applied. APIs supporting
+ * Idempotency-Key (Stripe-style) return the original result when they see the
+ * same key again, so retrying the request can't create a duplicate.
+ *
+ * Key scopes:
+ * - call: new random key per tool call, reused by its retry attempts
+ * - arguments: derived from caller identity, method, URL and body (file
+ *   uploads by content hash), so a client re-sending the same tool call after
+ *   a lost response reuses it too
+ */
+
+import crypto from 'crypto';
+import type { IdempotencyKeyScope } from './types/profile.js';
+import { FilePart } from './request-body.js';
+
+export const DEFAULT_IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+export interface IdempotencyKeyInput {
+  token?: string;
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+export function createIdempotencyKey(scope: IdempotencyKeyScope, input: IdempotencyKeyInput): string {
+  if (scope === 'call') {
+    return crypto.randomUUID();
+  }
+  return crypto.createHash('sha256')
+    .update(JSON.stringify([input.token ?? null, input.method.toUpperCase(), input.url, input.body ?? null], withFileHashes))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * JSON.stringify replacer hashing file bytes
+ *
+ * Why: FilePart serializes to name and size only; two different uploads of
+ * the same size must not share a key (and its cached result).
+ */
+function withFileHashes(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const original = this[key];
+  if (original instanceof FilePart) {
+    return { ...original.toJSON(), sha256: crypto.createHash('sha256').update(original.data).digest('hex') };
+  }
+  return value;
+}
+
+/**
+ * Tool result sent with idempotency key
+ *
+ * Why wrapper: Body keeps the tool's outputSchema shape; the key goes to the
+ * result's _meta so duplicate creations can be traced to a tool call.
+ */
+export class IdempotentResult {
+  constructor(
+    readonly body: unknown,
+    readonly idempotencyKey: string
+  ) {}
+}
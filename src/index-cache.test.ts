@@ -0,0 +1,112 @@
+/**
+ * Tests for on-disk spec index cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { IndexCache } from './index-cache.js';
+import { OpenAPIParser } from './openapi-parser.js';
+import { ProfileLoader } from './profile-loader.js';
+import { ConsoleLogger } from './logger.js';
+
+describe('IndexCache', () => {
+  let dir: string;
+  let specPath: string;
+  let cache: IndexCache;
+
+  async function writeSpec(operationId: string): Promise<void> {
+    await fs.writeFile(specPath, `
+openapi: 3.0.3
+info: { title: Cached API, version: '1.0' }
+servers:
+  - url: https://api.example.com
+paths:
+  /items/{id}:
+    parameters:
+      - $ref: './parameters.yaml#/ItemId'
+    get:
+      operationId: ${operationId}
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  name: { type: string }
+`);
+  }
+
+  async function loadParser(): Promise<OpenAPIParser> {
+    const parser = new OpenAPIParser();
+    await parser.load(specPath);
+    return parser;
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'index-cache-'));
+    specPath = path.join(dir, 'openapi.yaml');
+    await fs.writeFile(path.join(dir, 'parameters.yaml'), `
+ItemId:
+  name: id
+  in: path
+  required: true
+  schema: { type: integer }
+`);
+    await writeSpec('getItem');
+    cache = new IndexCache(path.join(dir, 'cache'), new ConsoleLogger());
+  });
+
+  afterEach(async () => {
+    delete process.env.MCP_TOOLNAME_MAX;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should restore parser and default profile from cache', async () => {
+    const parser = await loadParser();
+    const defaultProfile = ProfileLoader.createDefaultProfile('default', parser);
+    await cache.save(specPath, { parser: parser.toSnapshot(), defaultProfile });
+
+    const entry = await cache.load(specPath);
+    expect(entry?.defaultProfile).toEqual(defaultProfile);
+
+    const restored = new OpenAPIParser();
+    restored.loadSnapshot(entry!.parser);
+    expect(restored.getAllOperations()).toEqual(parser.getAllOperations());
+    expect(restored.getPath('/items/{id}')?.operations.get?.operationId).toBe('getItem');
+    expect(restored.getSpecVersion()).toBe('3.0');
+    expect(restored.getBaseUrl()).toBe('https://api.example.com');
+    expect(restored.getSourceFiles()).toEqual(parser.getSourceFiles());
+  });
+
+  it('should invalidate entry when spec or referenced file changes', async () => {
+    await cache.save(specPath, { parser: (await loadParser()).toSnapshot() });
+
+    await writeSpec('getItemRenamed');
+    expect(await cache.load(specPath)).toBeUndefined();
+
+    await writeSpec('getItem');
+    expect(await cache.load(specPath)).toBeDefined();
+
+    await fs.appendFile(path.join(dir, 'parameters.yaml'), '  description: Item ID\n');
+    expect(await cache.load(specPath)).toBeUndefined();
+  });
+
+  it('should invalidate entry when default profile env changes', async () => {
+    await cache.save(specPath, { parser: (await loadParser()).toSnapshot() });
+
+    process.env.MCP_TOOLNAME_MAX = '30';
+    expect(await cache.load(specPath)).toBeUndefined();
+  });
+
+  it('should ignore corrupt cache files', async () => {
+    await cache.save(specPath, { parser: (await loadParser()).toSnapshot() });
+    const [cacheFile] = await fs.readdir(path.join(dir, 'cache'));
+    await fs.writeFile(path.join(dir, 'cache', cacheFile), '{"formatVersion": 1, "key"');
+
+    expect(await cache.load(specPath)).toBeUndefined();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * On-disk cache of parsed spec index and auto-generated default profile
+ *
+ * Why: Huge specs (tens of MB) spend seconds in YAML parsing, $ref resolution
+ * and default profile generation on every process start. A JSON snapshot
+ * loads in milliseconds.
+ *
+ * Why content hash instead of mtime: Docker layers, git checkouts and
+ * ConfigMap mounts rewrite mtimes. The key covers content of every spec file
+ * (including external $ref targets) and env vars that shape the default
+ * profile, so any change invalidates the entry automatically.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Logger } from './logger.js';
+import type { ParserSnapshot } from './types/openapi.js';
+import type { Profile } from './types/profile.js';
+
+/**
+ * Bump when ParserSnapshot, OperationInfo or default profile generation
+ * changes shape - stale entries from older versions are then ignored.
+ */
+const CACHE_FORMAT_VERSION = 4;
+
+/**
+ * Env vars read by ProfileLoader.createDefaultProfile()
+ */
+const PROFILE_ENV_VARS = [
+  'MCP_TOOLNAME_MAX',
+  'MCP_TOOLNAME_STRATEGY',
+  'MCP_TOOLNAME_WARN_ONLY',
+  'MCP_TOOLNAME_MIN_PARTS',
+  'MCP_TOOLNAME_MIN_LENGTH',
+  'AUTH_ENV_VAR',
+  'AUTH_FORCE',
+  'AUTH_TYPE',
+  'AUTH_HEADER_NAME',
+  'AUTH_QUERY_PARAM',
+];
+
+export interface IndexCacheEntry {
+  parser: ParserSnapshot;
+  defaultProfile?: Profile; // Only when running without MCP_PROFILE_PATH
+}
+
+interface IndexCacheFile {
+  formatVersion: number;
+  key: string;
+  entry: IndexCacheEntry;
+}
+
+export class IndexCache {
+  constructor(
+    private cacheDir: string,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Get cached entry for spec, undefined if missing or stale
+   *
+   * Why never throw: Cache is an optimization. A corrupt or unreadable file
+   * must fall back to normal loading, not fail startup.
+   */
+  async load(specPath: string): Promise<IndexCacheEntry | undefined> {
+    const cacheFile = this.getCacheFile(specPath);
+
+    let cached: IndexCacheFile;
+    try {
+      cached = JSON.parse(await fs.readFile(cacheFile, 'utf-8')) as IndexCacheFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Ignoring unreadable index cache', { cacheFile, error: (error as Error).message });
+      }
+      return undefined;
+    }
+
+    if (cached.formatVersion !== CACHE_FORMAT_VERSION || !cached.entry?.parser) {
+      this.logger.debug('Index cache format changed', { cacheFile });
+      return undefined;
+    }
+
+    // Source files come from the entry: external $ref targets are only known after parsing
+    const key = await this.computeKey(cached.entry.parser.sourceFiles).catch(() => undefined);
+    if (key !== cached.key) {
+      this.logger.debug('Index cache is stale', { cacheFile });
+      return undefined;
+    }
+
+    this.logger.info('Loaded spec index from cache', { cacheFile });
+    return cached.entry;
+  }
+
+  /**
+   * Store entry for spec
+   *
+   * Why write + rename: Several replicas may share a cache volume. Readers
+   * see either the old or the new file, never a partial one.
+   */
+  async save(specPath: string, entry: IndexCacheEntry): Promise<void> {
+    const cacheFile = this.getCacheFile(specPath);
+    const tempFile = `${cacheFile}.${process.pid}.tmp`;
+
+    try {
+      const cached: IndexCacheFile = {
+        formatVersion: CACHE_FORMAT_VERSION,
+        key: await this.computeKey(entry.parser.sourceFiles),
+        entry,
+      };
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      await fs.writeFile(tempFile, JSON.stringify(cached));
+      await fs.rename(tempFile, cacheFile);
+      this.logger.info('Saved spec index to cache', { cacheFile });
+    } catch (error) {
+      // Read-only filesystem etc. - server works without cache
+      this.logger.warn('Failed to write index cache', { cacheFile, error: (error as Error).message });
+      await fs.rm(tempFile, { force: true });
+    }
+  }
+
+  /**
+   * One cache file per spec path, so multiple specs can share a directory
+   */
+  private getCacheFile(specPath: string): string {
+    const name = crypto.createHash('sha256').update(path.resolve(specPath)).digest('hex').slice(0, 16);
+    return path.join(this.cacheDir, `index-${name}.json`);
+  }
+
+  private async computeKey(sourceFiles: string[]): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    hash.update(`v${CACHE_FORMAT_VERSION}\n`);
+
+    for (const name of PROFILE_ENV_VARS) {
+      hash.update(`${name}=${process.env[name] ?? ''}\n`);
+    }
+
+    for (const file of sourceFiles) {
+      hash.update(`${file}\n`);
+      hash.update(await fs.readFile(file));
+    }
+
+    return hash.digest('hex');
+  }
+}
@@ -8,7 +8,8 @@
 
 import 'dotenv/config';
 import { MCPServer } from './mcp-server.js';
-import { ConsoleLogger, JsonLogger } from './logger.js';
+import { IndexCache } from './index-cache.js';
+import { ConsoleLogger, JsonLogger, type Logger } from './logger.js';
 
 async function main() {
   // Create logger based on env
@@ -24,6 +25,13 @@ async function main() {
   }
 
   const profilePath = process.env.MCP_PROFILE_PATH;
+
+  // Build spec index cache ahead of time (e.g., RUN step in Dockerfile) and exit
+  if (process.argv.includes('--prebuild-cache')) {
+    await prebuildCache(logger, specPath, profilePath);
+    return;
+  }
+
   const transport = process.env.MCP_TRANSPORT || 'stdio';
   
   try {
@@ -43,6 +51,11 @@ async function main() {
       await server.runStdio();
     }
 
+    // Hot-reload spec/profile on change (notifies clients via tools/list_changed)
+    if (process.env.MCP_WATCH === 'true') {
+      server.watch();
+    }
+
     // Graceful shutdown handlers
     const shutdown = async (signal: string) => {
       logger.info(`Received ${signal}, shutting down gracefully...`);
@@ -65,5 +78,31 @@ async function main() {
   }
 }
 
+/**
+ * Why full initialize: Profile and tool generation errors fail the image build
+ * instead of the first container start.
+ */
+async function prebuildCache(logger: Logger, specPath: string, profilePath?: string) {
+  const cacheDir = process.env.MCP_CACHE_DIR;
+  if (!cacheDir) {
+    logger.error('MCP_CACHE_DIR environment variable is required for --prebuild-cache');
+    process.exit(1);
+  }
+
+  try {
+    await new MCPServer(logger).initialize(specPath, profilePath);
+
+    // Cache write failures are only warnings at runtime - here they are fatal
+    if (!await new IndexCache(cacheDir, logger).load(specPath)) {
+      throw new Error(`Index cache was not written to ${cacheDir}`);
+    }
+    logger.info('Index cache ready', { cacheDir, specPath });
+    process.exit(0);
+  } catch (error) {
+    logger.error('Failed to prebuild index cache', error as Error);
+    process.exit(1);
+  }
+}
+
 main();
 
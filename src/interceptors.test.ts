@@ -6,9 +6,16 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { HttpClient, InterceptorChain } from './interceptors.js';
+import { FilePart } from './request-body.js';
+import { BinaryBody } from './response-content.js';
+import { ResponseCache } from './response-cache.js';
+import { MetricsCollector } from './metrics.js';
+import { UpstreamLimiter } from './upstream-limiter.js';
+import { UpstreamQuotas } from './upstream-quota.js';
+import { CircuitBreakers } from './circuit-breaker.js';
 import { createTestHttpClient, setupFetchMock, setupErrorFetchMock, setupNetworkErrorFetchMock, setupRateLimitFetchMock } from './testing/test-http-utils.js';
 import type { InterceptorConfig } from './types/profile.js';
-import { AuthenticationError, AuthorizationError, RateLimitError, NetworkError } from './errors.js';
+import { AuthenticationError, AuthorizationError, ConfigurationError, RateLimitError, NetworkError, TimeoutError, ValidationError } from './errors.js';
 
 describe('HttpClient - Auth Interceptors', () => {
   const originalEnv = { ...process.env };
@@ -203,6 +210,22 @@ describe('HttpClient - Rate Limiting', () => {
     });
   });
 
+  it('should fail fast when next token comes after request deadline', async () => {
+    const interceptors = new InterceptorChain({ rate_limit: { max_requests_per_minute: 2 } });
+    const request = (deadline: number) => interceptors.execute(
+      { method: 'GET', url: 'http://example.com', headers: {}, deadline },
+      async () => ({ status: 200, headers: {}, body: 'ok' })
+    );
+
+    await request(Date.now() + 1000);
+    await request(Date.now() + 1000);
+    const error = await request(Date.now() + 1000).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.details).toMatchObject({ retryAfter: 30, local: true });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
   it('should enforce per-endpoint rate limits', async () => {
     const config: InterceptorConfig = {
       rate_limit: {
@@ -425,6 +448,68 @@ describe('HttpClient - Retry Logic', () => {
       client.request('GET', '/test')
     ).rejects.toThrow(NetworkError);
   });
+
+  describe('idempotency and error classification', () => {
+    let attempts: number;
+    let status: number;
+    const config: InterceptorConfig = {
+      retry: { max_attempts: 3, backoff_ms: [1], retry_on_status: [503] },
+    };
+
+    beforeEach(() => {
+      attempts = 0;
+      status = 503;
+      global.fetch = async () => {
+        attempts++;
+        return new Response(JSON.stringify({ message: 'failed' }), {
+          status,
+          headers: { 'Content-Type': 'application/json', 'Retry-After': '0' },
+        });
+      };
+    });
+
+    it('should not retry POST without Idempotency-Key', async () => {
+      const client = new HttpClient('https://api.example.com', new InterceptorChain(config));
+
+      await expect(client.request('POST', '/projects')).rejects.toThrow(NetworkError);
+      expect(attempts).toBe(1);
+    });
+
+    it('should retry POST with Idempotency-Key', async () => {
+      const client = new HttpClient('https://api.example.com', new InterceptorChain(config));
+
+      await expect(client.request('POST', '/projects', { headers: { 'Idempotency-Key': 'k1' } })).rejects.toThrow(NetworkError);
+      expect(attempts).toBe(3);
+    });
+
+    it('should not retry statuses outside retry_on_status', async () => {
+      status = 404;
+      const client = new HttpClient('https://api.example.com', new InterceptorChain(config));
+
+      await expect(client.request('GET', '/projects/1')).rejects.toThrow('Resource not found');
+      expect(attempts).toBe(1);
+    });
+
+    it('should wait for Retry-After before next attempt', async () => {
+      vi.useFakeTimers();
+      global.fetch = async () => {
+        attempts++;
+        return attempts === 1
+          ? new Response(null, { status: 503, headers: { 'Retry-After': '2' } })
+          : new Response(JSON.stringify({ ok: true }), { headers: { 'Content-Type': 'application/json' } });
+      };
+      const client = new HttpClient('https://api.example.com', new InterceptorChain(config));
+
+      const pending = client.request('GET', '/projects/1');
+      await vi.advanceTimersByTimeAsync(1500);
+      expect(attempts).toBe(1);
+      await vi.advanceTimersByTimeAsync(500);
+      vi.useRealTimers();
+
+      expect((await pending).body).toEqual({ ok: true });
+      expect(attempts).toBe(2);
+    });
+  });
 });
 
 describe('HttpClient - Array Serialization', () => {
@@ -478,6 +563,92 @@ describe('HttpClient - Array Serialization', () => {
   });
 });
 
+describe('HttpClient - Operation Servers', () => {
+  let capturedUrl = '';
+
+  beforeEach(() => {
+    capturedUrl = '';
+    global.fetch = async (url: RequestInfo | URL) => {
+      capturedUrl = url.toString();
+      return new Response(JSON.stringify({ ok: true }), { status: 200 });
+    };
+  });
+
+  it('should use operation-level server with profile variables', async () => {
+    const config: InterceptorConfig = {
+      base_url: { variables: { region: { default: 'us' } } },
+    };
+    const client = new HttpClient('https://api.example.com/v1', new InterceptorChain(config));
+
+    await client.request('POST', '/files', {
+      servers: [{ url: 'https://uploads.{region}.example.com', variables: { region: { default: 'eu' } } }],
+    });
+
+    expect(capturedUrl).toBe('https://uploads.us.example.com/files');
+  });
+
+  it('should resolve relative operation server against base URL', async () => {
+    const client = new HttpClient('https://api.example.com/v1', new InterceptorChain({}));
+
+    await client.request('GET', '/status', { servers: [{ url: '/internal' }] });
+
+    expect(capturedUrl).toBe('https://api.example.com/internal/status');
+  });
+
+  it('should keep configured base URL over absolute operation server', async () => {
+    process.env.TEST_API_BASE_URL = 'https://api.example.com/v1';
+    try {
+      const config: InterceptorConfig = { base_url: { value_from_env: 'TEST_API_BASE_URL' } };
+      const client = new HttpClient('https://api.example.com/v1', new InterceptorChain(config));
+
+      await client.request('POST', '/files', { servers: [{ url: 'https://uploads.example.com' }] });
+
+      expect(capturedUrl).toBe('https://api.example.com/v1/files');
+    } finally {
+      delete process.env.TEST_API_BASE_URL;
+    }
+  });
+
+  it('should use operation server over configured base URL when profile opts in', async () => {
+    const config: InterceptorConfig = {
+      base_url: { default: 'https://api.example.com/v1', operation_servers: true, server_index: 1 },
+    };
+    const client = new HttpClient('https://api.example.com/v1', new InterceptorChain(config));
+
+    await client.request('POST', '/files', {
+      servers: [{ url: 'https://uploads.example.com' }, { url: 'https://uploads.sandbox.example.com' }],
+    });
+
+    expect(capturedUrl).toBe('https://uploads.sandbox.example.com/files');
+  });
+
+  it('should reject operation servers not matching server_description', async () => {
+    const config: InterceptorConfig = { base_url: { server_description: 'Production' } };
+    const client = new HttpClient('https://api.example.com/v1', new InterceptorChain(config));
+
+    await expect(client.request('POST', '/files', {
+      servers: [{ url: 'https://uploads.example.com', description: 'Sandbox' }],
+    })).rejects.toThrow("No OpenAPI server with description 'Production'");
+  });
+
+  it('should request absolute URLs only on base URL origin', async () => {
+    const client = new HttpClient('https://api.example.com/v1', new InterceptorChain({}));
+
+    await client.request('GET', 'https://api.example.com/v1/events/after/c1', { params: { per_page: '1' } });
+    expect(capturedUrl).toBe('https://api.example.com/v1/events/after/c1?per_page=1');
+
+    await expect(client.request('GET', 'https://evil.example.com/steal')).rejects.toThrow(ValidationError);
+  });
+
+  it('should use client base URL without operation servers', async () => {
+    const client = new HttpClient('https://api.example.com/v1', new InterceptorChain({}));
+
+    await client.request('GET', '/status');
+
+    expect(capturedUrl).toBe('https://api.example.com/v1/status');
+  });
+});
+
 describe('HttpClient - Structured Error Handling', () => {
   const originalEnv = { ...process.env };
 
@@ -697,3 +868,713 @@ describe('HttpClient - Structured Error Handling', () => {
   });
 });
 
+
+describe('HttpClient - Request Body Encoding', () => {
+  let captured: RequestInit | undefined;
+
+  beforeEach(() => {
+    captured = undefined;
+    global.fetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+      captured = init;
+      return new Response(JSON.stringify({ ok: true }), { status: 200 });
+    };
+  });
+
+  it('should send JSON by default', async () => {
+    const client = new HttpClient('https://api.example.com', new InterceptorChain({}));
+
+    await client.request('POST', '/items', { body: { name: 'x' } });
+
+    expect(captured?.body).toBe('{"name":"x"}');
+    expect((captured?.headers as Record<string, string>)['Content-Type']).toBe('application/json');
+  });
+
+  it('should encode form body using array_format', async () => {
+    const client = new HttpClient('https://api.example.com', new InterceptorChain({ array_format: 'brackets' }));
+
+    await client.request('POST', '/token', {
+      body: { grant_type: 'password', scopes: ['api', 'read_user'], user: { name: 'a b' } },
+      mediaType: 'application/x-www-form-urlencoded',
+    });
+
+    expect(captured?.body?.toString())
+      .toBe('grant_type=password&scopes%5B%5D=api&scopes%5B%5D=read_user&user%5Bname%5D=a+b');
+    expect((captured?.headers as Record<string, string>)['Content-Type']).toBe('application/x-www-form-urlencoded');
+  });
+
+  it('should send multipart body as FormData without Content-Type header', async () => {
+    const client = new HttpClient('https://api.example.com', new InterceptorChain({}));
+
+    await client.request('POST', '/uploads', {
+      body: { file: new FilePart(Buffer.from('hello'), 'hello.txt', 'text/plain'), note: 'n' },
+      mediaType: 'multipart/form-data',
+    });
+
+    const form = captured?.body as FormData;
+    expect(form).toBeInstanceOf(FormData);
+    expect(form.get('note')).toBe('n');
+    const file = form.get('file') as File;
+    expect(file.name).toBe('hello.txt');
+    expect(await file.text()).toBe('hello');
+    expect(captured?.headers).not.toHaveProperty('Content-Type');
+  });
+});
+
+describe('HttpClient - Empty Responses', () => {
+  it('should not parse empty bodies labelled as JSON', async () => {
+    const client = new HttpClient('https://api.example.com', new InterceptorChain({}));
+    const json = { 'Content-Type': 'application/json' };
+
+    global.fetch = async () => new Response(null, { status: 204, headers: json });
+    expect((await client.request('DELETE', '/items/1')).body).toBe('');
+
+    global.fetch = async () => new Response('', { status: 200, headers: json });
+    expect((await client.request('GET', '/items/1')).body).toBe('');
+  });
+});
+
+describe('HttpClient - Binary Responses', () => {
+  it('should keep binary bodies as bytes without auth query params in uri', async () => {
+    const bytes = Buffer.from([0, 255, 1, 254]);
+    global.fetch = async () => new Response(bytes, { headers: { 'Content-Type': 'application/octet-stream' } });
+    const chain = new InterceptorChain({ auth: { type: 'query', query_param: 'private_token', value_from_env: 'UNUSED' } }, 'secret');
+    const client = new HttpClient('https://api.example.com', chain);
+
+    const response = await client.request('GET', '/files/raw');
+
+    expect(response.body).toBeInstanceOf(BinaryBody);
+    const body = response.body as BinaryBody;
+    expect([...body.data]).toEqual([0, 255, 1, 254]);
+    expect(body.mimeType).toBe('application/octet-stream');
+    expect(body.uri).toBe('https://api.example.com/files/raw');
+  });
+});
+
+describe('HttpClient - Response Cache', () => {
+  let requests: Array<{ method: string; url: string; headers: Record<string, string> }>;
+  let etag: string;
+
+  beforeEach(() => {
+    requests = [];
+    etag = '"v1"';
+    global.fetch = async (url: RequestInfo | URL, init?: RequestInit) => {
+      const headers = init?.headers as Record<string, string>;
+      requests.push({ method: init!.method!, url: String(url), headers });
+      if (headers['If-None-Match'] === etag) {
+        return new Response(null, { status: 304, headers: { ETag: etag } });
+      }
+      return new Response(JSON.stringify({ request: requests.length }), {
+        headers: { 'Content-Type': 'application/json', ETag: etag },
+      });
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createClient(token: string, responseCache: ResponseCache, metrics?: MetricsCollector): HttpClient {
+    const config: InterceptorConfig = {
+      auth: { type: 'bearer', value_from_env: 'UNUSED' },
+      cache: { ttl_seconds: 60, overrides: { listPipelines: { ttl_seconds: 0 } } },
+    };
+    return new HttpClient('https://api.example.com', new InterceptorChain(config, token, { responseCache, metrics }));
+  }
+
+  it('should serve fresh GET responses from cache', async () => {
+    const client = createClient('token', new ResponseCache());
+
+    const first = await client.request('GET', '/projects/1', { operationId: 'getProject' });
+    const second = await client.request('GET', '/projects/1', { operationId: 'getProject' });
+
+    expect(requests).toHaveLength(1);
+    expect(second.body).toEqual(first.body);
+  });
+
+  it('should not share entries between requests differing only by a header', async () => {
+    const client = createClient('token', new ResponseCache());
+
+    const tenantA = await client.request('GET', '/projects/1', { headers: { 'X-Tenant-Id': 'a' } });
+    const tenantB = await client.request('GET', '/projects/1', { headers: { 'X-Tenant-Id': 'b' } });
+    const tenantAgain = await client.request('GET', '/projects/1', { headers: { 'X-Tenant-Id': 'a' } });
+
+    expect(requests).toHaveLength(2);
+    expect(tenantB.body).not.toEqual(tenantA.body);
+    expect(tenantAgain.body).toEqual(tenantA.body);
+  });
+
+  it('should ignore per-request correlation headers in cache key', async () => {
+    const config: InterceptorConfig = {
+      headers: { values: { 'X-Request-Id': '${correlation_id}' } },
+      cache: { ttl_seconds: 60 },
+    };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config, 'token', { responseCache: new ResponseCache() }));
+
+    await client.request('GET', '/projects/1');
+    await client.request('GET', '/projects/1');
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should revalidate stale entries with If-None-Match', async () => {
+    vi.useFakeTimers();
+    const metrics = new MetricsCollector({ enabled: true, prefix: 'test_' });
+    const client = createClient('token', new ResponseCache(), metrics);
+
+    await client.request('GET', '/projects/1', { operationId: 'getProject' });
+    vi.advanceTimersByTime(61000);
+    const revalidated = await client.request('GET', '/projects/1', { operationId: 'getProject' });
+
+    expect(requests[1].headers['If-None-Match']).toBe('"v1"');
+    expect(revalidated).toMatchObject({ status: 200, body: { request: 1 } });
+
+    etag = '"v2"';
+    vi.advanceTimersByTime(61000);
+    const changed = await client.request('GET', '/projects/1', { operationId: 'getProject' });
+    expect(changed.body).toEqual({ request: 3 });
+
+    const output = await metrics.getMetrics();
+    expect(output).toContain('test_api_cache_requests_total{operation="getProject",result="miss"} 2');
+    expect(output).toContain('test_api_cache_requests_total{operation="getProject",result="revalidated"} 1');
+  });
+
+  it('should revalidate with 304 labelled as JSON', async () => {
+    vi.useFakeTimers();
+    const client = createClient('token', new ResponseCache());
+    const fetchJson = global.fetch;
+    global.fetch = async (url: RequestInfo | URL, init?: RequestInit) => {
+      const response = await fetchJson(url, init);
+      return response.status === 304
+        ? new Response(null, { status: 304, headers: { 'Content-Type': 'application/json', ETag: etag } })
+        : response;
+    };
+
+    await client.request('GET', '/projects/1', { operationId: 'getProject' });
+    vi.advanceTimersByTime(61000);
+    const revalidated = await client.request('GET', '/projects/1', { operationId: 'getProject' });
+
+    expect(requests).toHaveLength(2);
+    expect(revalidated).toMatchObject({ status: 200, body: { request: 1 } });
+  });
+
+  it('should never share entries between tokens', async () => {
+    const responseCache = new ResponseCache();
+
+    await createClient('token-a', responseCache).request('GET', '/projects/1');
+    const other = await createClient('token-b', responseCache).request('GET', '/projects/1');
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].headers['If-None-Match']).toBeUndefined();
+    expect(other.body).toEqual({ request: 2 });
+  });
+
+  it('should invalidate related GETs after writes', async () => {
+    const client = createClient('token', new ResponseCache());
+    await client.request('GET', '/projects/1/issues');
+    await client.request('GET', '/user');
+
+    await client.request('POST', '/projects/1/issues', { body: { title: 'Bug' } });
+    await client.request('GET', '/projects/1/issues');
+    await client.request('GET', '/user');
+
+    expect(requests.map(r => `${r.method} ${new URL(r.url).pathname}`)).toEqual([
+      'GET /projects/1/issues',
+      'GET /user',
+      'POST /projects/1/issues',
+      'GET /projects/1/issues',
+    ]);
+  });
+
+  it('should bypass cache for operations with ttl_seconds 0', async () => {
+    const client = createClient('token', new ResponseCache());
+
+    await client.request('GET', '/projects/1/pipelines', { operationId: 'listPipelines' });
+    await client.request('GET', '/projects/1/pipelines', { operationId: 'listPipelines' });
+
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('HttpClient - Request Deduplication', () => {
+  let requests: string[];
+  let release: () => void;
+
+  beforeEach(() => {
+    requests = [];
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    global.fetch = async (url: RequestInfo | URL, init?: RequestInit) => {
+      requests.push(`${init!.method} ${url}`);
+      await gate;
+      return new Response(JSON.stringify({ request: requests.length }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    };
+  });
+
+  function createClient(token: string, options: { metrics?: MetricsCollector; inFlightRequests?: Map<string, any> } = {}): HttpClient {
+    const config: InterceptorConfig = {
+      auth: { type: 'bearer', value_from_env: 'UNUSED' },
+      dedup: { exclude_operations: ['getJobTrace'] },
+    };
+    return new HttpClient('https://api.example.com', new InterceptorChain(config, token, options));
+  }
+
+  it('should coalesce concurrent identical GETs into one upstream call', async () => {
+    const metrics = new MetricsCollector({ enabled: true, prefix: 'test_' });
+    const client = createClient('token', { metrics });
+
+    const pending = [1, 2, 3].map(() => client.request('GET', '/projects/1', { operationId: 'getProject' }));
+    release();
+    const responses = await Promise.all(pending);
+
+    expect(requests).toEqual(['GET https://api.example.com/projects/1']);
+    expect(responses.map(r => r.body)).toEqual([{ request: 1 }, { request: 1 }, { request: 1 }]);
+    expect(await metrics.getMetrics()).toContain('test_api_deduplicated_requests_total{operation="getProject"} 2');
+
+    await client.request('GET', '/projects/1');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should coalesce requests differing only by per-request correlation header', async () => {
+    const config: InterceptorConfig = {
+      headers: { values: { 'X-Request-Id': '${correlation_id}' } },
+      dedup: {},
+    };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config, 'token'));
+
+    const pending = [client.request('GET', '/projects/1'), client.request('GET', '/projects/1')];
+    release();
+    await Promise.all(pending);
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should share failures with coalesced callers', async () => {
+    global.fetch = async () => {
+      requests.push('GET');
+      return new Response(JSON.stringify({ message: 'down' }), { status: 503, headers: { 'Content-Type': 'application/json' } });
+    };
+    const client = createClient('token');
+
+    const results = await Promise.allSettled([client.request('GET', '/projects/1'), client.request('GET', '/projects/1')]);
+
+    expect(requests).toHaveLength(1);
+    expect(results.map(r => r.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('should not coalesce different auth identities, writes or excluded operations', async () => {
+    const inFlightRequests = new Map();
+    const clientA = createClient('token-a', { inFlightRequests });
+    const clientB = createClient('token-b', { inFlightRequests });
+
+    const pending = [
+      clientA.request('GET', '/projects/1'),
+      clientB.request('GET', '/projects/1'),
+      clientA.request('POST', '/projects/1/star'),
+      clientA.request('POST', '/projects/1/star'),
+      clientA.request('GET', '/jobs/1/trace', { operationId: 'getJobTrace' }),
+      clientA.request('GET', '/jobs/1/trace', { operationId: 'getJobTrace' }),
+    ];
+    release();
+    await Promise.all(pending);
+
+    expect(requests).toHaveLength(6);
+  });
+});
+
+describe('HttpClient - Circuit Breaker', () => {
+  let requests: string[];
+  let status: number;
+
+  beforeEach(() => {
+    requests = [];
+    status = 503;
+    global.fetch = async (url: RequestInfo | URL) => {
+      requests.push(String(url));
+      return new Response(JSON.stringify({ message: status === 200 ? 'ok' : 'unavailable' }), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fail fast with NetworkError once breaker opens', async () => {
+    const metrics = new MetricsCollector({ enabled: true, prefix: 'test_' });
+    const config: InterceptorConfig = { circuit_breaker: { failure_threshold: 2, cooldown_ms: 60000 } };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config, undefined, { metrics }));
+
+    await expect(client.request('GET', '/projects/1', { operationId: 'getProject' })).rejects.toThrow('unavailable');
+    await expect(client.request('GET', '/projects/1', { operationId: 'getProject' })).rejects.toThrow('unavailable');
+    const error = await client.request('GET', '/projects/1', { operationId: 'getProject' }).catch(e => e);
+
+    expect(requests).toHaveLength(2);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toContain('Circuit breaker open for getProject');
+    expect(error.details).toMatchObject({ circuitBreaker: 'getProject', retryAfter: 60 });
+
+    // Other operations are unaffected with per-operation scope
+    await expect(client.request('GET', '/users', { operationId: 'listUsers' })).rejects.toThrow('unavailable');
+    expect(requests).toHaveLength(3);
+
+    const output = await metrics.getMetrics();
+    expect(output).toContain('test_circuit_breaker_state{breaker="getProject"} 1');
+    expect(output).toContain('test_circuit_breaker_rejected_requests_total{breaker="getProject"} 1');
+  });
+
+  it('should close after successful trial request', async () => {
+    vi.useFakeTimers();
+    const config: InterceptorConfig = { circuit_breaker: { scope: 'host', failure_threshold: 1, cooldown_ms: 1000 } };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config));
+
+    await expect(client.request('GET', '/projects/1')).rejects.toThrow('unavailable');
+    await expect(client.request('GET', '/users')).rejects.toThrow('Circuit breaker open for api.example.com');
+
+    vi.advanceTimersByTime(1000);
+    status = 200;
+    await client.request('GET', '/users');
+    await client.request('GET', '/users');
+
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should stay half-open when trial request fails locally', async () => {
+    vi.useFakeTimers();
+    const config: InterceptorConfig = {
+      circuit_breaker: { scope: 'host', failure_threshold: 1, cooldown_ms: 1000 },
+      rate_limit: { max_requests_per_minute: 600, adaptive: true },
+    };
+    const circuitBreakers = new CircuitBreakers(config.circuit_breaker);
+    const upstreamQuotas = new UpstreamQuotas();
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config, 'token', { circuitBreakers, upstreamQuotas }));
+
+    await expect(client.request('GET', '/projects/1')).rejects.toThrow('unavailable');
+    vi.advanceTimersByTime(1000);
+    upstreamQuotas.update('api.example.com', UpstreamQuotas.identity('token'), { 'ratelimit-remaining': '0', 'ratelimit-reset': '3600' });
+
+    await expect(client.request('GET', '/projects/1')).rejects.toThrow(RateLimitError);
+
+    expect(requests).toHaveLength(1);
+    expect(circuitBreakers.state('api.example.com')).toBe('half-open');
+    expect(circuitBreakers.acquire('api.example.com')).toBe(0);
+  });
+
+  it('should not count client errors as failures', async () => {
+    status = 404;
+    const config: InterceptorConfig = { circuit_breaker: { failure_threshold: 1 } };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config));
+
+    await expect(client.request('GET', '/projects/1')).rejects.toThrow('Resource not found');
+    await expect(client.request('GET', '/projects/1')).rejects.toThrow('Resource not found');
+
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('HttpClient - Idempotency Keys', () => {
+  let keys: Array<string | undefined>;
+  let failures: number;
+
+  beforeEach(() => {
+    keys = [];
+    failures = 1;
+    global.fetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+      keys.push((init?.headers as Record<string, string>)['X-Request-Key']);
+      const status = keys.length <= failures ? 503 : 201;
+      return new Response(JSON.stringify({ id: 1 }), { status, headers: { 'Content-Type': 'application/json' } });
+    };
+  });
+
+  function createClient(scope: 'call' | 'arguments' = 'call'): HttpClient {
+    const config: InterceptorConfig = {
+      idempotency: { header_name: 'X-Request-Key', scope, operations: { createIssue: {} } },
+      retry: { max_attempts: 3, backoff_ms: [1], retry_on_status: [503] },
+    };
+    return new HttpClient('https://api.example.com', new InterceptorChain(config, 'token'));
+  }
+
+  it('should reuse one key across retries of a POST and return it', async () => {
+    const response = await createClient().request('POST', '/issues', { operationId: 'createIssue', body: { title: 'a' } });
+
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toBeDefined();
+    expect(keys[1]).toBe(keys[0]);
+    expect(response.idempotencyKey).toBe(keys[0]);
+  });
+
+  it('should use new key per call, or stable key per arguments', async () => {
+    failures = 0;
+    const options = { operationId: 'createIssue', body: { title: 'a' } };
+
+    await createClient().request('POST', '/issues', options);
+    await createClient().request('POST', '/issues', options);
+    await createClient('arguments').request('POST', '/issues', options);
+    await createClient('arguments').request('POST', '/issues', options);
+    await createClient('arguments').request('POST', '/issues', { ...options, body: { title: 'b' } });
+
+    expect(keys[1]).not.toBe(keys[0]);
+    expect(keys[3]).toBe(keys[2]);
+    expect(keys[4]).not.toBe(keys[2]);
+  });
+
+  it('should add key to error details and skip undeclared operations', async () => {
+    failures = 10;
+    const error = await createClient().request('POST', '/issues', { operationId: 'createIssue' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.details.idempotencyKey).toBe(keys[0]);
+
+    keys = [];
+    await expect(createClient().request('POST', '/projects', { operationId: 'createProject' })).rejects.toThrow(NetworkError);
+    expect(keys).toEqual([undefined]);
+  });
+});
+
+describe('HttpClient - Custom Headers', () => {
+  const originalEnv = { ...process.env };
+  let sent: Array<Record<string, string>>;
+  let failures: number;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    sent = [];
+    failures = 0;
+    global.fetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+      sent.push(init?.headers as Record<string, string>);
+      const status = sent.length <= failures ? 503 : 200;
+      return new Response('{}', { status, headers: { 'Content-Type': 'application/json' } });
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  function createClient(config: InterceptorConfig, session?: Record<string, string>): HttpClient {
+    return new HttpClient('https://api.example.com', new InterceptorChain(config, 'token', {}, session));
+  }
+
+  it('should send global and per-operation headers with env and session values', async () => {
+    process.env.TENANT_ID = 'acme';
+    const client = createClient({
+      headers: {
+        values: { 'Accept': 'application/vnd.github+json', 'X-Tenant': 'global', 'X-Session': '${session.id}' },
+        operations: { listIssues: { 'X-Tenant': 'tenant-${env:TENANT_ID}' } },
+      },
+    }, { id: 'session-1' });
+
+    await client.request('GET', '/issues', { operationId: 'listIssues' });
+    await client.request('GET', '/projects', { operationId: 'listProjects' });
+
+    expect(sent[0]).toMatchObject({ 'Accept': 'application/vnd.github+json', 'X-Tenant': 'tenant-acme', 'X-Session': 'session-1' });
+    expect(sent[1]['X-Tenant']).toBe('global');
+  });
+
+  it('should keep one correlation ID across retries and new one per request', async () => {
+    failures = 1;
+    const client = createClient({
+      headers: { values: { 'X-Request-ID': '${correlation_id}' } },
+      retry: { max_attempts: 2, backoff_ms: [1], retry_on_status: [503] },
+    });
+
+    await client.request('GET', '/issues');
+    await client.request('GET', '/issues');
+
+    expect(sent).toHaveLength(3);
+    expect(sent[0]['X-Request-ID']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(sent[1]['X-Request-ID']).toBe(sent[0]['X-Request-ID']);
+    expect(sent[2]['X-Request-ID']).not.toBe(sent[0]['X-Request-ID']);
+  });
+
+  it('should send correlation ID of tool call', async () => {
+    const client = createClient({ headers: { values: { 'X-Request-ID': '${correlation_id}' } } });
+
+    await client.request('GET', '/issues', { correlationId: 'call-1' });
+    await client.request('GET', '/issues?page=2', { correlationId: 'call-1' });
+
+    expect(sent.map(headers => headers['X-Request-ID'])).toEqual(['call-1', 'call-1']);
+  });
+
+  it('should not override request headers and skip headers without session', async () => {
+    const client = createClient({
+      headers: { values: { 'x-api-version': '2', 'X-Session': '${session.id}' } },
+    });
+
+    await client.request('GET', '/issues', { headers: { 'X-Api-Version': '3' } });
+
+    expect(sent[0]['X-Api-Version']).toBe('3');
+    expect(sent[0]).not.toHaveProperty('x-api-version');
+    expect(sent[0]).not.toHaveProperty('X-Session');
+  });
+
+  it('should reject unset env vars and unknown placeholders', async () => {
+    delete process.env.MISSING_TENANT;
+
+    await expect(createClient({ headers: { values: { 'X-Tenant': '${env:MISSING_TENANT}' } } }).request('GET', '/issues'))
+      .rejects.toThrow(ConfigurationError);
+    await expect(createClient({ headers: { values: { 'X-Tenant': '${tenant}' } } }).request('GET', '/issues'))
+      .rejects.toThrow('unknown placeholder ${tenant}');
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe('HttpClient - Upstream Limit', () => {
+  it('should cap concurrent requests across clients sharing the limiter', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    global.fetch = async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return new Response('{}', { status: 200, headers: { 'Content-Type': 'application/json' } });
+    };
+
+    const config: InterceptorConfig = { upstream_limit: { max_in_flight: 1 } };
+    const metrics = new MetricsCollector({ enabled: true, prefix: 'test_' });
+    const options = { upstreamLimiter: new UpstreamLimiter(config.upstream_limit!), metrics };
+    const clients = ['a', 'b'].map(id =>
+      new HttpClient('https://api.example.com', new InterceptorChain(config, 'token', options, { id })));
+
+    await Promise.all([...clients, ...clients].map(client => client.request('GET', '/issues')));
+
+    expect(maxInFlight).toBe(1);
+    const output = await metrics.getMetrics();
+    expect(output).toContain('test_upstream_limiter_in_flight_requests{upstream="api.example.com"} 0');
+    expect(output).toContain('test_upstream_limiter_queue_depth{upstream="api.example.com"} 0');
+  });
+
+  it('should fail with RateLimitError when queue wait exceeds deadline', async () => {
+    global.fetch = async () => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return new Response('{}', { status: 200, headers: { 'Content-Type': 'application/json' } });
+    };
+
+    const config: InterceptorConfig = { upstream_limit: { max_in_flight: 1 }, timeout: { total_ms: 20 } };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config, 'token'));
+
+    const first = client.request('GET', '/issues').catch(e => e);
+    await expect(client.request('GET', '/issues')).rejects.toThrow(RateLimitError);
+    await first;
+  });
+
+  it('should not retry requests that timed out in queue', async () => {
+    let calls = 0;
+    global.fetch = async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, 300));
+      return new Response('{}', { status: 200, headers: { 'Content-Type': 'application/json' } });
+    };
+
+    const config: InterceptorConfig = {
+      upstream_limit: { max_in_flight: 1, queue_timeout_ms: 50 },
+      retry: { max_attempts: 3, retry_on_status: [429], base_delay_ms: 10 },
+    };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config, 'token'));
+
+    const first = client.request('GET', '/issues');
+    const started = Date.now();
+    await expect(client.request('GET', '/issues')).rejects.toThrow('waited 50ms in queue');
+
+    expect(Date.now() - started).toBeLessThan(250);
+    await first;
+    expect(calls).toBe(1);
+  });
+});
+
+describe('HttpClient - Adaptive Rate Limit', () => {
+  const jsonResponse = (status: number, headers: Record<string, string>) =>
+    new Response('{}', { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+  it('should fail fast when learned quota is exhausted and report it', async () => {
+    let calls = 0;
+    global.fetch = async () => {
+      calls++;
+      return jsonResponse(200, { 'RateLimit-Limit': '100', 'RateLimit-Remaining': '0', 'RateLimit-Reset': '3600' });
+    };
+
+    const config: InterceptorConfig = { rate_limit: { max_requests_per_minute: 600, adaptive: true } };
+    const upstreamQuotas = new UpstreamQuotas();
+    const clients = ['a', 'b'].map(id =>
+      new HttpClient('https://api.example.com', new InterceptorChain(config, 'token', { upstreamQuotas }, { id })));
+
+    await clients[0].request('GET', '/issues');
+    const error = await clients[1].request('GET', '/issues').catch(e => e);
+
+    expect(calls).toBe(1);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.details.retryAfter).toBe(3600);
+    expect(error.details.quota).toEqual({ limit: 100, remaining: 0, resetInSeconds: 3600 });
+    expect(upstreamQuotas.stats()).toMatchObject([{ upstream: 'api.example.com', identity: UpstreamQuotas.identity('token') }]);
+  });
+
+  it('should pause until Retry-After after 429', async () => {
+    let calls = 0;
+    global.fetch = async () => {
+      calls++;
+      return jsonResponse(429, { 'Retry-After': '120' });
+    };
+
+    const config: InterceptorConfig = { rate_limit: { max_requests_per_minute: 600, adaptive: true, max_wait_ms: 1000 } };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config, 'token'));
+
+    const first = await client.request('GET', '/issues').catch(e => e);
+    const second = await client.request('GET', '/issues').catch(e => e);
+
+    expect(first).toBeInstanceOf(RateLimitError);
+    expect(first.details.quota).toEqual({ remaining: 0, resetInSeconds: 120 });
+    expect(second).toBeInstanceOf(RateLimitError);
+    expect(second.message).toContain('quota exhausted');
+    expect(calls).toBe(1);
+  });
+});
+
+describe('HttpClient - Timeouts', () => {
+  let requests: number;
+
+  beforeEach(() => {
+    requests = 0;
+    // Hangs until aborted, like an unresponsive upstream
+    global.fetch = (_url: RequestInfo | URL, init?: RequestInit) => {
+      requests++;
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      });
+    };
+  });
+
+  it('should abort hung request with TimeoutError', async () => {
+    const config: InterceptorConfig = { timeout: { request_ms: 20 } };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config));
+
+    const error = await client.request('GET', '/projects/1').catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toBe('GET /projects/1 did not respond within 20ms');
+    expect(error.details).toMatchObject({ timeoutMs: 20 });
+  });
+
+  it('should apply per-operation overrides', async () => {
+    const config: InterceptorConfig = { timeout: { request_ms: 60000, overrides: { getJobTrace: { request_ms: 20 } } } };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config));
+
+    await expect(client.request('GET', '/jobs/1/trace', { operationId: 'getJobTrace' }))
+      .rejects.toThrow('getJobTrace did not respond within 20ms');
+  });
+
+  it('should stop retrying at overall deadline', async () => {
+    const config: InterceptorConfig = {
+      timeout: { request_ms: 30, total_ms: 100 },
+      retry: { max_attempts: 10, backoff_ms: [10], retry_on_status: [503] },
+    };
+    const client = new HttpClient('https://api.example.com', new InterceptorChain(config));
+    const start = Date.now();
+
+    await expect(client.request('GET', '/projects/1')).rejects.toBeInstanceOf(TimeoutError);
+
+    expect(requests).toBeLessThan(4);
+    expect(Date.now() - start).toBeLessThan(500);
+  });
+});
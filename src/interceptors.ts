@@ -1,13 +1,29 @@
 /**
- * HTTP interceptors for auth, rate limiting, retry, etc.
+ * HTTP interceptors for custom headers, auth, caching, deduplication, circuit breaking, rate limiting, retry,
+ * upstream concurrency limits, etc.
  * 
  * Why interceptor pattern: Separates cross-cutting concerns (auth, retry)
  * from business logic (API calls). Each interceptor is independently testable.
  */
 
+import crypto from 'crypto';
 import type { InterceptorConfig } from './types/profile.js';
+import type { ServerInfo } from './types/openapi.js';
 import { TIME, HTTP_STATUS } from './constants.js';
-import { AuthenticationError, AuthorizationError, NetworkError, RateLimitError } from './errors.js';
+import { AuthenticationError, AuthorizationError, ConfigurationError, NetworkError, RateLimitError, TimeoutError, ValidationError, isMCPError, generateCorrelationId } from './errors.js';
+import { selectServer, resolveServerUrl, getServerVariableValues } from './server-url.js';
+import { isUri } from './validation-utils.js';
+import { isBinaryContentType, readBinaryBody } from './response-content.js';
+import { appendField, encodeRequestBody, JSON_MEDIA_TYPE, type ArrayFormat } from './request-body.js';
+import { ResponseCache } from './response-cache.js';
+import { CircuitBreakers } from './circuit-breaker.js';
+import { UpstreamLimiter } from './upstream-limiter.js';
+import { UpstreamQuotas } from './upstream-quota.js';
+import { createIdempotencyKey, DEFAULT_IDEMPOTENCY_HEADER } from './idempotency.js';
+import { configuredHeaders, renderHeaderTemplate, isPerRequestTemplate } from './header-templates.js';
+import { isRetryableRequest, isRetryableError, retryDelay, parseRetryAfter, errorRetryAfterMs } from './retry-policy.js';
+import type { MetricsCollector } from './metrics.js';
+import type { DispatcherResolver } from './outbound-agents.js';
 
 export interface RequestContext {
   method: string;
@@ -15,14 +31,43 @@ export interface RequestContext {
   headers: Record<string, string>;
   body?: unknown;
   operationId?: string; // For per-endpoint rate limiting
+  timeoutMs?: number; // Per attempt (fetch + body)
+  deadline?: number; // Epoch ms; retries don't start past it
+  idempotencyKey?: string; // Set by idempotency interceptor, makes any method retryable
+  volatileHeaders?: string[]; // Generated per request (correlation ID, idempotency key); not part of cache/dedup keys
+  correlationId?: string; // Tool call ID for ${correlation_id} headers
+}
+
+export interface RequestOptions {
+  params?: Record<string, string | string[]>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  operationId?: string; // For per-endpoint rate limiting
+  servers?: ServerInfo[]; // Path- or operation-level servers from spec
+  mediaType?: string; // Request body encoding (default: application/json)
+  correlationId?: string; // Tool call ID, also in its logs and error messages (default: new ID)
 }
 
 export interface ResponseContext {
   status: number;
   headers: Record<string, string>;
   body: unknown;
+  idempotencyKey?: string; // Sent by idempotency interceptor
+}
+
+export interface InterceptorChainOptions {
+  metrics?: MetricsCollector; // Set for HTTP transport with METRICS_ENABLED
+  responseCache?: ResponseCache; // Shared store, so max_entries/max_bytes bound all sessions together
+  inFlightRequests?: Map<string, Promise<ResponseContext>>; // Shared, so sessions with same token coalesce too
+  circuitBreakers?: CircuitBreakers; // Shared, so upstream failures seen by one session protect all
+  upstreamLimiter?: UpstreamLimiter; // Shared, so limits cap all sessions together
+  upstreamQuotas?: UpstreamQuotas; // Shared, so sessions with same token pace together
 }
 
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const DEFAULT_MAX_QUOTA_WAIT_MS = 60000;
+const SAFE_METHODS = ['GET', 'HEAD'];
+
 export type InterceptorFn = (
   ctx: RequestContext,
   next: () => Promise<ResponseContext>
@@ -31,14 +76,39 @@ export type InterceptorFn = (
 export class InterceptorChain {
   private interceptors: InterceptorFn[] = [];
 
-  constructor(public config: InterceptorConfig, private authToken?: string) {
+  constructor(
+    public config: InterceptorConfig,
+    private authToken?: string,
+    private options: InterceptorChainOptions = {},
+    private session: Record<string, string> = {}
+  ) {
     this.buildChain();
   }
 
   private buildChain(): void {
+    if (this.config.headers) {
+      this.interceptors.push(this.createHeadersInterceptor());
+    }
+
     if (this.config.auth) {
       this.interceptors.push(this.createAuthInterceptor());
     }
+
+    if (this.config.idempotency) {
+      this.interceptors.push(this.createIdempotencyInterceptor());
+    }
+
+    if (this.config.cache) {
+      this.interceptors.push(this.createCacheInterceptor());
+    }
+
+    if (this.config.dedup) {
+      this.interceptors.push(this.createDedupInterceptor());
+    }
+
+    if (this.config.circuit_breaker) {
+      this.interceptors.push(this.createCircuitBreakerInterceptor());
+    }
     
     if (this.config.rate_limit) {
       this.interceptors.push(this.createRateLimitInterceptor());
@@ -47,6 +117,40 @@ export class InterceptorChain {
     if (this.config.retry) {
       this.interceptors.push(this.createRetryInterceptor());
     }
+
+    if (this.config.upstream_limit) {
+      this.interceptors.push(this.createUpstreamLimitInterceptor());
+    }
+  }
+
+  /**
+   * Headers interceptor: adds configured static and templated headers
+   *
+   * Why first: Auth interceptor then always sets the credential header, and
+   * dedup keys include these headers. Why not override: Content-Type of the
+   * request body and header parameters passed as tool arguments are more
+   * specific than profile-wide values.
+   */
+  private createHeadersInterceptor(): InterceptorFn {
+    const config = this.config.headers!;
+
+    return async (ctx, next) => {
+      const context = { session: this.session, correlationId: ctx.correlationId ?? generateCorrelationId() };
+      const present = new Set(Object.keys(ctx.headers).map(name => name.toLowerCase()));
+
+      for (const [name, template] of Object.entries(configuredHeaders(config, ctx.operationId))) {
+        if (present.has(name.toLowerCase())) continue;
+        const value = renderHeaderTemplate(name, template, context);
+        if (value !== undefined) {
+          ctx.headers[name] = value;
+          if (isPerRequestTemplate(template)) {
+            ctx.volatileHeaders = [...(ctx.volatileHeaders ?? []), name];
+          }
+        }
+      }
+
+      return next();
+    };
   }
 
   /**
@@ -109,6 +213,191 @@ export class InterceptorChain {
     };
   }
 
+  /**
+   * Idempotency interceptor: adds Idempotency-Key for declared operations
+   *
+   * Why before retry: Key is generated once here, so all retry attempts of
+   * the call send the same one. Key is returned with the response and added
+   * to error details, so it shows up in tool results and error logs.
+   */
+  private createIdempotencyInterceptor(): InterceptorFn {
+    const config = this.config.idempotency!;
+
+    return async (ctx, next) => {
+      const operation = ctx.operationId ? config.operations[ctx.operationId] : undefined;
+      if (!operation) {
+        return next();
+      }
+
+      const headerName = operation.header_name || config.header_name || DEFAULT_IDEMPOTENCY_HEADER;
+      const existing = Object.keys(ctx.headers).find(name => name.toLowerCase() === headerName.toLowerCase());
+      const key = existing
+        ? ctx.headers[existing]
+        : createIdempotencyKey(operation.scope || config.scope || 'call', {
+            token: this.authToken,
+            method: ctx.method,
+            url: ctx.url,
+            body: ctx.body,
+          });
+      ctx.headers[existing || headerName] = key;
+      ctx.idempotencyKey = key;
+      ctx.volatileHeaders = [...(ctx.volatileHeaders ?? []), existing || headerName];
+
+      try {
+        return { ...(await next()), idempotencyKey: key };
+      } catch (error) {
+        if (isMCPError(error)) {
+          error.details = { ...error.details, idempotencyKey: key };
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Cache interceptor: serves fresh GET responses from memory
+   *
+   * Why before rate limit and retry: Cache hits must not consume rate limit
+   * tokens. Stale entries are revalidated with If-None-Match/If-Modified-Since;
+   * a 304 costs the API almost nothing and keeps the cached body.
+   *
+   * Why invalidate even on failed writes: A write that timed out or failed
+   * with 5xx may still have been applied.
+   */
+  private createCacheInterceptor(): InterceptorFn {
+    const config = this.config.cache!;
+    const cache = this.options.responseCache || new ResponseCache(config);
+
+    return async (ctx, next) => {
+      if (WRITE_METHODS.includes(ctx.method.toUpperCase())) {
+        try {
+          return await next();
+        } finally {
+          cache.invalidate(ctx.url);
+        }
+      }
+
+      const operation = ctx.operationId || 'unknown';
+      const override = ctx.operationId ? config.overrides?.[ctx.operationId] : undefined;
+      const ttlSeconds = override?.ttl_seconds ?? config.ttl_seconds;
+      if (ctx.method.toUpperCase() !== 'GET' || ttlSeconds <= 0) {
+        return next();
+      }
+
+      const ttlMs = ttlSeconds * TIME.MS_PER_SECOND;
+      const key = ResponseCache.key(this.authToken, ctx.url, stableHeaders(ctx));
+      const entry = cache.get(key);
+
+      if (entry && entry.expiresAt > Date.now()) {
+        this.options.metrics?.recordCacheResult(operation, 'hit');
+        return entry.response;
+      }
+
+      if (entry?.etag) {
+        ctx.headers['If-None-Match'] = entry.etag;
+      }
+      if (entry?.lastModified) {
+        ctx.headers['If-Modified-Since'] = entry.lastModified;
+      }
+
+      const response = await next();
+
+      if (entry && response.status === HTTP_STATUS.NOT_MODIFIED) {
+        this.options.metrics?.recordCacheResult(operation, 'revalidated');
+        cache.refresh(key, ttlMs);
+        return entry.response;
+      }
+
+      this.options.metrics?.recordCacheResult(operation, 'miss');
+      if (response.status === HTTP_STATUS.OK) {
+        cache.set(key, ctx.url, response, ttlMs);
+      }
+      return response;
+    };
+  }
+
+  /**
+   * Dedup interceptor: single-flight for concurrent identical safe requests
+   *
+   * Why: Composite steps and parallel tool calls often fetch the same
+   * resource at the same moment. Followers await the leader's upstream call
+   * (and get its response or error) instead of sending their own.
+   *
+   * Why after auth and cache: Key covers auth header/query token, so callers
+   * with different identities never share a response; cache hits return
+   * before reaching here.
+   */
+  private createDedupInterceptor(): InterceptorFn {
+    const config = this.config.dedup!;
+    const inFlight = this.options.inFlightRequests || new Map<string, Promise<ResponseContext>>();
+
+    return async (ctx, next) => {
+      const excluded = ctx.operationId && config.exclude_operations?.includes(ctx.operationId);
+      if (!SAFE_METHODS.includes(ctx.method.toUpperCase()) || excluded) {
+        return next();
+      }
+
+      const key = requestKey(ctx);
+      const pending = inFlight.get(key);
+      if (pending) {
+        this.options.metrics?.recordDeduplicatedRequest(ctx.operationId || 'unknown');
+        return pending;
+      }
+
+      const request = next().finally(() => inFlight.delete(key));
+      inFlight.set(key, request);
+      return request;
+    };
+  }
+
+  /**
+   * Circuit breaker: fail fast while upstream operation (or host) is failing
+   *
+   * Why before rate limit and retry: Rejected requests must not wait for
+   * rate limit tokens or the retry schedule. One request with all its retries
+   * counts as one failure.
+   *
+   * Only network errors and 5xx count as failures - 4xx means the API is up.
+   * Errors raised locally (queue timeout, validation) say nothing about the
+   * API, so they neither close nor open the breaker.
+   */
+  private createCircuitBreakerInterceptor(): InterceptorFn {
+    const config = this.config.circuit_breaker!;
+    const breakers = this.options.circuitBreakers || new CircuitBreakers(config);
+
+    return async (ctx, next) => {
+      const key = config.scope === 'host' ? new URL(ctx.url).host : ctx.operationId || 'unknown';
+
+      const waitMs = breakers.acquire(key);
+      if (waitMs > 0) {
+        this.options.metrics?.recordCircuitBreakerRejection(key);
+        const retryAfter = Math.ceil(waitMs / TIME.MS_PER_SECOND);
+        throw new NetworkError(
+          `Circuit breaker open for ${key}: upstream API is failing, try again in ${retryAfter}s`,
+          undefined,
+          { circuitBreaker: key, retryAfter }
+        );
+      }
+
+      try {
+        const response = await next();
+        breakers.recordSuccess(key);
+        return response;
+      } catch (error) {
+        if (isLocalError(error)) {
+          breakers.release(key);
+        } else if (isUpstreamFailure(error)) {
+          breakers.recordFailure(key);
+        } else {
+          breakers.recordSuccess(key);
+        }
+        throw error;
+      } finally {
+        this.options.metrics?.setCircuitBreakerState(key, breakers.state(key));
+      }
+    };
+  }
+
   /**
    * Rate limiter: token bucket algorithm with per-endpoint overrides
    *
@@ -116,9 +405,19 @@ export class InterceptorChain {
    * than strict per-request delays.
    *
    * Supports per-endpoint overrides via operationId matching.
+   *
+   * Why fail when the wait passes the deadline: The request would time out
+   * anyway, only later (same as the upstream limiter queue).
+   *
+   * Adaptive mode additionally waits for upstream quota learned from
+   * RateLimit headers of earlier responses (see UpstreamQuotas) and reports
+   * the quota in RateLimitError details.
    */
   private createRateLimitInterceptor(): InterceptorFn {
     const config = this.config.rate_limit!;
+    const quotas = config.adaptive
+      ? this.options.upstreamQuotas || new UpstreamQuotas(config.reserve_ratio)
+      : undefined;
 
     // Global token bucket state
     const globalTokensPerMs = config.max_requests_per_minute / TIME.MS_PER_MINUTE;
@@ -167,6 +466,14 @@ export class InterceptorChain {
       // Check if we need to wait
       if (bucket.tokens < 1) {
         const waitMs = (1 - bucket.tokens) / bucket.tokensPerMs;
+        if (ctx.deadline !== undefined && now + waitMs > ctx.deadline) {
+          const error = new RateLimitError(
+            `Rate limit reached: next request slot in ${Math.ceil(waitMs)}ms is past the request deadline`,
+            Math.ceil(waitMs / TIME.MS_PER_SECOND)
+          );
+          error.details = { ...error.details, local: true };
+          throw error;
+        }
         await new Promise(resolve => setTimeout(resolve, waitMs));
         bucket.tokens = 0;
       } else {
@@ -179,45 +486,141 @@ export class InterceptorChain {
         globalLastRefill = bucket.lastRefill;
       }
 
-      return next();
+      return quotas ? this.withUpstreamQuota(quotas, ctx, next) : next();
     };
   }
 
   /**
-   * Retry interceptor: exponential backoff
+   * Wait for upstream quota, send request and learn quota from its outcome
+   *
+   * Why fail instead of wait past max_wait_ms or deadline: Quota resets can be
+   * an hour away; the caller should learn that instead of hanging.
+   */
+  private async withUpstreamQuota(
+    quotas: UpstreamQuotas,
+    ctx: RequestContext,
+    next: () => Promise<ResponseContext>
+  ): Promise<ResponseContext> {
+    const upstream = new URL(ctx.url).host;
+    const identity = UpstreamQuotas.identity(this.authToken);
+    const maxWaitMs = this.config.rate_limit!.max_wait_ms ?? DEFAULT_MAX_QUOTA_WAIT_MS;
+
+    const waitMs = quotas.reserve(upstream, identity);
+    if (waitMs > 0) {
+      const timeLeft = ctx.deadline !== undefined ? ctx.deadline - Date.now() : Infinity;
+      if (waitMs > maxWaitMs || waitMs > timeLeft) {
+        const error = new RateLimitError(
+          'Upstream API rate limit quota exhausted',
+          Math.ceil(waitMs / TIME.MS_PER_SECOND)
+        );
+        error.details = { ...error.details, quota: quotas.snapshot(upstream, identity), local: true };
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+
+    try {
+      const response = await next();
+      quotas.update(upstream, identity, response.headers);
+      return response;
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        quotas.pause(upstream, identity, errorRetryAfterMs(error));
+        error.details = { ...error.details, quota: quotas.snapshot(upstream, identity) };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Retry interceptor: exponential backoff with jitter
    * 
    * Why exponential: Reduces server load during outages. Linear backoff
    * can cause thundering herd on recovery.
+   *
+   * Why idempotency-aware: Retrying a POST that timed out may create the
+   * resource twice. Only safe methods (or requests with Idempotency-Key) retry,
+   * and only for errors another attempt can fix.
+   *
+   * Why check deadline before backoff: Retry that would start after the
+   * overall timeout can't finish in time, so the last result is returned.
    */
   private createRetryInterceptor(): InterceptorFn {
     const config = this.config.retry!;
 
     return async (ctx, next) => {
-      let lastError: Error | undefined;
+      if (!ctx.idempotencyKey && !isRetryableRequest(config, ctx.method, ctx.headers)) {
+        return next();
+      }
+
+      const delayFor = (attempt: number, retryAfterMs: number | undefined): number | undefined => {
+        if (attempt >= config.max_attempts - 1) return undefined;
+        const delayMs = retryDelay(config, attempt, retryAfterMs);
+        if (delayMs === undefined || (ctx.deadline !== undefined && Date.now() + delayMs >= ctx.deadline)) {
+          return undefined;
+        }
+        return delayMs;
+      };
 
-      for (let attempt = 0; attempt < config.max_attempts; attempt++) {
+      for (let attempt = 0; ; attempt++) {
         try {
           const response = await next();
-          
+
           // Check if we should retry based on status
-          if (config.retry_on_status.includes(response.status) && attempt < config.max_attempts - 1) {
-            const backoffMs = config.backoff_ms[attempt] || config.backoff_ms[config.backoff_ms.length - 1];
-            await new Promise(resolve => setTimeout(resolve, backoffMs));
-            continue;
+          const delayMs = config.retry_on_status.includes(response.status)
+            ? delayFor(attempt, parseRetryAfter(response.headers, response.status))
+            : undefined;
+          if (delayMs === undefined) {
+            return response;
           }
-          
-          return response;
+          await new Promise(resolve => setTimeout(resolve, delayMs));
         } catch (error) {
-          lastError = error instanceof Error ? error : new Error(String(error));
-          
-          if (attempt < config.max_attempts - 1) {
-            const backoffMs = config.backoff_ms[attempt] || config.backoff_ms[config.backoff_ms.length - 1];
-            await new Promise(resolve => setTimeout(resolve, backoffMs));
+          const delayMs = isRetryableError(config, error) ? delayFor(attempt, errorRetryAfterMs(error)) : undefined;
+          if (delayMs === undefined) {
+            throw error;
           }
+          await new Promise(resolve => setTimeout(resolve, delayMs));
         }
       }
+    };
+  }
+
+  /**
+   * Upstream limit interceptor: process-wide in-flight and rate caps per host
+   *
+   * Why last (after retry): Slot is held only while a request is on the wire,
+   * not during retry backoff; each attempt queues again. Queue wait ends at
+   * the request's deadline when that comes first.
+   */
+  private createUpstreamLimitInterceptor(): InterceptorFn {
+    const config = this.config.upstream_limit!;
+    const limiter = this.options.upstreamLimiter || new UpstreamLimiter(config);
+    const session = this.session.id || 'global';
 
-      throw lastError || new Error('All retry attempts failed');
+    return async (ctx, next) => {
+      const upstream = new URL(ctx.url).host;
+      const queueTimeoutMs = Math.min(
+        config.queue_timeout_ms ?? Infinity,
+        ctx.deadline !== undefined ? ctx.deadline - Date.now() : Infinity
+      );
+      const report = () => this.options.metrics?.setUpstreamLimiterState(upstream, limiter.state(upstream));
+
+      const acquired = limiter.acquire(upstream, session, Number.isFinite(queueTimeoutMs) ? queueTimeoutMs : undefined);
+      report();
+
+      const release = await acquired.catch(error => {
+        this.options.metrics?.recordUpstreamQueueTimeout(upstream);
+        report();
+        throw error;
+      });
+
+      report();
+      try {
+        return await next();
+      } finally {
+        release();
+        report();
+      }
     };
   }
 
@@ -237,13 +640,83 @@ export class InterceptorChain {
   }
 }
 
+/**
+ * Request headers that select the response: lowercased, sorted, without volatile ones
+ *
+ * Why: Header params (X-Tenant-Id) and session-templated headers can change
+ * the response of an identical URL.
+ */
+function stableHeaders(ctx: RequestContext): Array<[string, string]> {
+  const volatile = new Set((ctx.volatileHeaders ?? []).map(name => name.toLowerCase()));
+  return Object.entries(ctx.headers)
+    .map(([name, value]): [string, string] => [name.toLowerCase(), value])
+    .filter(([name]) => !volatile.has(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Identity of request for deduplication: method, URL and stable headers
+ *
+ * Hashed so auth tokens don't stay in memory as map keys. Why stable only:
+ * a ${correlation_id} header differs on every call and would defeat dedup.
+ */
+function requestKey(ctx: RequestContext): string {
+  return crypto.createHash('sha256').update(JSON.stringify([ctx.method.toUpperCase(), ctx.url, stableHeaders(ctx)])).digest('hex');
+}
+
+/**
+ * Errors raised before or instead of calling the API (details.local, bad arguments or config)
+ */
+function isLocalError(error: unknown): boolean {
+  return error instanceof ValidationError || error instanceof ConfigurationError ||
+    (isMCPError(error) && error.details?.local === true);
+}
+
+/**
+ * Network errors, timeouts and 5xx responses; other structured errors are API answers
+ */
+function isUpstreamFailure(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof NetworkError) {
+    const statusCode = error.details?.statusCode as number | undefined;
+    return statusCode === undefined || statusCode >= HTTP_STATUS.INTERNAL_SERVER_ERROR;
+  }
+  return !isMCPError(error);
+}
+
+/**
+ * Parse response body by content type
+ *
+ * Why url, not ctx.url: auth interceptor may have added token as query param
+ * Why check for empty body: Servers label 304, 204 and empty 200 responses
+ * application/json too; parsing them would fail the request.
+ */
+async function readBody(response: Response, url: string): Promise<unknown> {
+  if (response.status === HTTP_STATUS.NOT_MODIFIED || response.status === HTTP_STATUS.NO_CONTENT) {
+    await response.body?.cancel();
+    return '';
+  }
+
+  const contentType = response.headers.get('content-type');
+  if (contentType?.includes('application/json')) {
+    const text = await response.text();
+    return text.trim() ? JSON.parse(text) : '';
+  }
+  return isBinaryContentType(contentType)
+      ? await readBinaryBody(response, contentType!.split(';')[0].trim(), url)
+      : await response.text();
+}
+
 /**
  * HTTP client with interceptor support
  */
 export class HttpClient {
   constructor(
     private baseUrl: string,
-    private interceptors: InterceptorChain
+    private interceptors: InterceptorChain,
+    private dispatcherFor?: DispatcherResolver // Proxy and TLS settings per target URL
   ) {}
 
   /**
@@ -254,45 +727,102 @@ export class HttpClient {
    */
   private serializeParams(
     params: Record<string, string | string[]>,
-    format: 'brackets' | 'indices' | 'repeat' | 'comma'
+    format: ArrayFormat
   ): URLSearchParams {
     const searchParams = new URLSearchParams();
     
     for (const [key, value] of Object.entries(params)) {
-      if (Array.isArray(value)) {
-        switch (format) {
-          case 'brackets':
-            value.forEach(item => searchParams.append(`${key}[]`, String(item)));
-            break;
-          case 'indices':
-            value.forEach((item, i) => searchParams.append(`${key}[${i}]`, String(item)));
-            break;
-          case 'repeat':
-            value.forEach(item => searchParams.append(key, String(item)));
-            break;
-          case 'comma':
-            searchParams.append(key, value.map(String).join(','));
-            break;
-        }
-      } else {
-        searchParams.append(key, String(value));
-      }
+      appendField(searchParams, key, value, format);
     }
     
     return searchParams;
   }
 
-  async request(method: string, path: string, options: {
-    params?: Record<string, string | string[]>;
-    body?: unknown;
-    headers?: Record<string, string>;
-    operationId?: string; // For per-endpoint rate limiting
-  } = {}): Promise<ResponseContext> {
-    let url = this.baseUrl + path;
+  /**
+   * Pick base URL for operation with its own servers
+   *
+   * Why: Some endpoints live on another host (e.g., uploads). Base URL set
+   * in profile (env var or default) wins unless operation_servers opts in,
+   * so the token never goes to a host only the spec names. Server is picked
+   * and templated like spec-level servers; relative server URLs resolve
+   * against the client's base URL.
+   */
+  private resolveBaseUrl(servers?: ServerInfo[]): string {
+    const config = this.interceptors.config.base_url;
+    const configured = (config?.value_from_env && process.env[config.value_from_env]) || config?.default;
+
+    if (!servers || servers.length === 0 || (configured && !config?.operation_servers)) {
+      return this.baseUrl;
+    }
+
+    const server = selectServer(servers, config)!;
+    const url = resolveServerUrl(server, getServerVariableValues(config));
+
+    if (isUri(url) || !isUri(this.baseUrl)) {
+      return url;
+    }
+    return new URL(url, this.baseUrl).toString().replace(/\/$/, '');
+  }
+
+  /**
+   * Fetch and read body, aborted after attempt timeout or at the deadline
+   *
+   * Why body too: A server may send headers promptly and then stall the body.
+   */
+  private async fetchWithTimeout(
+    ctx: RequestContext,
+    fetchOptions: RequestInit,
+    url: string
+  ): Promise<{ response: Response; body: unknown }> {
+    const limits = [ctx.timeoutMs, ctx.deadline !== undefined ? ctx.deadline - Date.now() : undefined]
+      .filter((ms): ms is number => ms !== undefined);
+
+    if (limits.length === 0) {
+      const response = await fetch(ctx.url, fetchOptions);
+      return { response, body: await readBody(response, url) };
+    }
+
+    const timeoutMs = Math.max(0, Math.min(...limits));
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(ctx.url, { ...fetchOptions, signal: controller.signal });
+      return { response, body: await readBody(response, url) };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Why not ctx.url in message: auth interceptor may have added token as query param
+        const target = ctx.operationId || `${ctx.method} ${new URL(url).pathname}`;
+        throw new TimeoutError(`${target} did not respond within ${timeoutMs}ms`, timeoutMs, {
+          operationId: ctx.operationId,
+        });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * @param path Operation path appended to base URL, or absolute URL on the
+   * base URL's origin (e.g., pagination next link)
+   */
+  async request(method: string, path: string, options: RequestOptions = {}): Promise<ResponseContext> {
+    const baseUrl = this.resolveBaseUrl(options.servers);
+    let url = baseUrl + path;
+    if (isUri(path)) {
+      // Why same origin only: Auth interceptor would send the token to any host the API links to
+      if (!isUri(baseUrl) || new URL(path).origin !== new URL(baseUrl).origin) {
+        throw new ValidationError(`Refusing to request ${new URL(path).origin}: not the API's origin`, {
+          operationId: options.operationId,
+        });
+      }
+      url = path;
+    }
 
     // Add query parameters with proper array handling
+    const arrayFormat = this.interceptors.config.array_format || 'repeat';
     if (options.params && Object.keys(options.params).length > 0) {
-      const arrayFormat = this.interceptors.config.array_format || 'repeat';
       const searchParams = this.serializeParams(options.params, arrayFormat);
       url += '?' + searchParams.toString();
     }
@@ -301,29 +831,39 @@ export class HttpClient {
       method,
       url,
       headers: {
-        'Content-Type': 'application/json',
+        'Content-Type': options.mediaType || JSON_MEDIA_TYPE,
         ...options.headers,
       },
       body: options.body,
       operationId: options.operationId,
+      correlationId: options.correlationId,
     };
 
+    const timeout = this.interceptors.config.timeout;
+    const timeoutOverride = options.operationId ? timeout?.overrides?.[options.operationId] : undefined;
+    const totalMs = timeoutOverride?.total_ms ?? timeout?.total_ms;
+    ctx.timeoutMs = timeoutOverride?.request_ms ?? timeout?.request_ms;
+    ctx.deadline = totalMs !== undefined ? Date.now() + totalMs : undefined;
+
     return this.interceptors.execute(ctx, async () => {
       // Why no body for GET/HEAD: HTTP spec forbids request body for these methods
       const fetchOptions: RequestInit = {
         method: ctx.method,
         headers: ctx.headers,
+        dispatcher: this.dispatcherFor?.(ctx.url),
       };
 
       if (ctx.method !== 'GET' && ctx.method !== 'HEAD' && ctx.body) {
-        fetchOptions.body = JSON.stringify(ctx.body);
-      }
+        fetchOptions.body = encodeRequestBody(ctx.body, ctx.headers['Content-Type'] || JSON_MEDIA_TYPE, arrayFormat);
 
-      const response = await fetch(ctx.url, fetchOptions);
+        // Why drop Content-Type: fetch sets multipart boundary only when header is absent
+        if (fetchOptions.body instanceof FormData) {
+          const { 'Content-Type': _contentType, ...headers } = ctx.headers;
+          fetchOptions.headers = headers;
+        }
+      }
 
-      const body = response.headers.get('content-type')?.includes('application/json')
-        ? await response.json()
-        : await response.text();
+      const { response, body } = await this.fetchWithTimeout(ctx, fetchOptions, url);
 
       const responseContext = {
         status: response.status,
@@ -333,7 +873,9 @@ export class HttpClient {
 
       // Why throw on non-2xx: Allows caller to handle errors with try/catch
       // Use structured errors for better client handling
-      if (response.status < HTTP_STATUS.OK || response.status >= HTTP_STATUS.MULTIPLE_CHOICES) {
+      // 304 answers a conditional request (cache interceptor), not an error
+      const isError = response.status < HTTP_STATUS.OK || response.status >= HTTP_STATUS.MULTIPLE_CHOICES;
+      if (isError && response.status !== HTTP_STATUS.NOT_MODIFIED) {
         // Extract error message from response body (common formats)
         let errorMessage = `HTTP ${response.status}`;
         if (typeof body === 'object' && body !== null) {
@@ -343,19 +885,22 @@ export class HttpClient {
           errorMessage = body;
         }
 
+        // Retry-After (or rate limit reset) in whole seconds, for retry interceptor and client
+        const retryAfterMs = parseRetryAfter(responseContext.headers, response.status);
+        const retryAfter = retryAfterMs !== undefined ? Math.ceil(retryAfterMs / TIME.MS_PER_SECOND) : undefined;
+
         // Throw specific error types based on HTTP status
         if (response.status === HTTP_STATUS.UNAUTHORIZED) {
           throw new AuthenticationError(errorMessage, { statusCode: response.status });
         } else if (response.status === HTTP_STATUS.FORBIDDEN) {
           throw new AuthorizationError(errorMessage);
         } else if (response.status === HTTP_STATUS.TOO_MANY_REQUESTS) {
-          const retryAfter = response.headers.get('retry-after');
-          throw new RateLimitError(errorMessage, retryAfter ? parseInt(retryAfter, 10) : undefined);
+          throw new RateLimitError(errorMessage, retryAfter);
         } else if (response.status === HTTP_STATUS.NOT_FOUND) {
           throw new NetworkError(`Resource not found: ${errorMessage}`, response.status);
         } else {
           // Generic network error for other status codes (includes 5xx)
-          throw new NetworkError(errorMessage, response.status, { body });
+          throw new NetworkError(errorMessage, response.status, retryAfter !== undefined ? { body, retryAfter } : { body });
         }
       }
 
@@ -283,6 +283,22 @@ describe('Token Redaction', () => {
     });
   });
 
+  describe('Sensitive parameters', () => {
+    it('should redact sensitive header and cookie params without auth config', () => {
+      const logger = new JsonLogger(LogLevel.INFO, undefined, ['X-Session-Token', 'cookie']);
+      logger.info('Request', {
+        headers: { 'x-session-token': 'secret123', Cookie: 'sid=secret456', 'X-Api-Version': '2' },
+      });
+
+      const parsed = JSON.parse(consoleErrorSpy.mock.calls[0][0]);
+      expect(parsed.headers).toEqual({
+        'x-session-token': '[REDACTED]',
+        Cookie: '[REDACTED]',
+        'X-Api-Version': '2',
+      });
+    });
+  });
+
   describe('No auth config', () => {
     it('should not redact when no auth config provided', () => {
       const logger = new ConsoleLogger(LogLevel.INFO);
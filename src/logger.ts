@@ -24,6 +24,27 @@ export interface Logger {
   error(message: string, error?: Error, context?: Record<string, unknown>): void;
 }
 
+/**
+ * Redact sensitive header/cookie parameters (from spec) in headers and params
+ *
+ * Why independent of auth config: Operations may take session cookies or
+ * tokens as parameters whatever auth the profile uses.
+ */
+function redactSensitiveParams(data: Record<string, unknown>, names: string[]): Record<string, unknown> {
+  if (names.length === 0) return data;
+
+  const redacted = { ...data };
+  for (const key of ['headers', 'params']) {
+    const value = redacted[key];
+    if (!value || typeof value !== 'object') continue;
+
+    const entries = Object.entries(value as Record<string, unknown>)
+      .map(([name, v]) => [name, names.includes(name.toLowerCase()) ? '[REDACTED]' : v]);
+    redacted[key] = Object.fromEntries(entries);
+  }
+  return redacted;
+}
+
 /**
  * Default logger - writes to stderr, respects LOG_LEVEL env var
  * 
@@ -32,8 +53,9 @@ export interface Logger {
 export class ConsoleLogger implements Logger {
   private level: LogLevel;
   private authConfig?: AuthInterceptor;
+  private sensitiveParams: string[];
 
-  constructor(level?: LogLevel, authConfig?: AuthInterceptor) {
+  constructor(level?: LogLevel, authConfig?: AuthInterceptor, sensitiveParams: string[] = []) {
     if (level !== undefined) {
       this.level = level;
     } else {
@@ -44,6 +66,7 @@ export class ConsoleLogger implements Logger {
         : LogLevel.INFO;
     }
     this.authConfig = authConfig;
+    this.sensitiveParams = sensitiveParams.map(name => name.toLowerCase());
   }
 
   debug(message: string, context?: Record<string, unknown>): void {
@@ -88,9 +111,8 @@ export class ConsoleLogger implements Logger {
    * Why: Prevent token leakage in logs
    */
   private redactSensitive(data: Record<string, unknown>): Record<string, unknown> {
-    if (!this.authConfig) return data;
-    
-    const redacted = { ...data };
+    const redacted = redactSensitiveParams(data, this.sensitiveParams);
+    if (!this.authConfig) return redacted;
     
     switch (this.authConfig.type) {
       case 'bearer':
@@ -196,8 +218,9 @@ export class ConsoleLogger implements Logger {
 export class JsonLogger implements Logger {
   private level: LogLevel;
   private authConfig?: AuthInterceptor;
+  private sensitiveParams: string[];
 
-  constructor(level?: LogLevel, authConfig?: AuthInterceptor) {
+  constructor(level?: LogLevel, authConfig?: AuthInterceptor, sensitiveParams: string[] = []) {
     if (level !== undefined) {
       this.level = level;
     } else {
@@ -207,6 +230,7 @@ export class JsonLogger implements Logger {
         : LogLevel.INFO;
     }
     this.authConfig = authConfig;
+    this.sensitiveParams = sensitiveParams.map(name => name.toLowerCase());
   }
 
   debug(message: string, context?: Record<string, unknown>): void {
@@ -254,9 +278,8 @@ export class JsonLogger implements Logger {
    * Why: Prevent token leakage in logs (same logic as ConsoleLogger)
    */
   private redactSensitive(data: Record<string, unknown>): Record<string, unknown> {
-    if (!this.authConfig) return data;
-    
-    const redacted = { ...data };
+    const redacted = redactSensitiveParams(data, this.sensitiveParams);
+    if (!this.authConfig) return redacted;
     
     switch (this.authConfig.type) {
       case 'bearer':
@@ -4,15 +4,17 @@
  * Why: Test server initialization, tool listing, and behavior without profile.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import path from 'path';
 import { MCPServer } from './mcp-server.js';
+import { OpenAPIParser } from './openapi-parser.js';
 import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { 
   AuthenticationError, 
   AuthorizationError, 
   RateLimitError, 
   NetworkError,
+  TimeoutError,
   ValidationError 
 } from './errors.js';
 
@@ -127,6 +129,422 @@ describe('MCPServer', () => {
     });
   });
 
+  describe('structured content', () => {
+    it('should return structuredContent alongside text for tools with outputSchema', async () => {
+      process.env.API_TOKEN = 'test-token';
+      const specPath = path.join(process.cwd(), 'profiles/gitlab/openapi.yaml');
+      await server.initialize(specPath);
+
+      const badge = { id: '1', name: 'coverage', link_url: 'https://example.com' };
+      const originalFetch = global.fetch;
+      global.fetch = async () => new Response(JSON.stringify(badge), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      try {
+        const response = await (server as any)['handleToolCall']({
+          jsonrpc: '2.0',
+          id: '1',
+          method: 'tools/call',
+          params: {
+            name: 'getApiV4ProjectsIdBadgesBadgeId',
+            arguments: { id: '123', badge_id: 1 },
+          },
+        });
+
+        expect(response.result.structuredContent).toEqual(badge);
+        expect(JSON.parse(response.result.content[0].text)).toEqual(badge);
+      } finally {
+        global.fetch = originalFetch;
+        delete process.env.API_TOKEN;
+      }
+    });
+  });
+
+  describe('binary responses', () => {
+    async function callWithResponse(response: Response) {
+      process.env.API_TOKEN = 'test-token';
+      await server.initialize(path.join(process.cwd(), 'profiles/gitlab/openapi.yaml'));
+
+      const originalFetch = global.fetch;
+      global.fetch = async () => response;
+      try {
+        const result = await (server as any)['handleToolCall']({
+          jsonrpc: '2.0',
+          id: '1',
+          method: 'tools/call',
+          params: { name: 'getApiV4ProjectsIdBadgesBadgeId', arguments: { id: '123', badge_id: 1 } },
+        });
+        return result.result;
+      } finally {
+        global.fetch = originalFetch;
+        delete process.env.API_TOKEN;
+      }
+    }
+
+    afterEach(() => {
+      delete process.env.MCP_BINARY_MAX_BYTES;
+    });
+
+    it('should return images as image content', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+      const result = await callWithResponse(new Response(png, { headers: { 'Content-Type': 'image/png' } }));
+
+      expect(result.content).toEqual([{ type: 'image', data: png.toString('base64'), mimeType: 'image/png' }]);
+    });
+
+    it('should wrap binary metadata as structuredContent for tools with outputSchema', async () => {
+      const pdf = Buffer.from('%PDF-1.7');
+      const result = await callWithResponse(new Response(pdf, { headers: { 'Content-Type': 'application/pdf' } }));
+
+      expect(result.structuredContent).toEqual({
+        result: { mimeType: 'application/pdf', size: pdf.length, uri: expect.stringMatching(/\/badges\/1$/) },
+      });
+    });
+
+    it('should return empty structuredContent for empty body', async () => {
+      const result = await callWithResponse(new Response('', { headers: { 'Content-Type': 'text/plain' } }));
+
+      expect(result.structuredContent).toEqual({});
+    });
+
+    it('should return other binaries as embedded resource', async () => {
+      const pdf = Buffer.from('%PDF-1.7');
+      const result = await callWithResponse(new Response(pdf, { headers: { 'Content-Type': 'application/pdf' } }));
+
+      expect(result.content[0]).toEqual({
+        type: 'resource',
+        resource: {
+          uri: expect.stringMatching(/\/projects\/123\/badges\/1$/),
+          mimeType: 'application/pdf',
+          blob: pdf.toString('base64'),
+        },
+      });
+    });
+
+    it('should replace binaries over size limit with text notice', async () => {
+      process.env.MCP_BINARY_MAX_BYTES = '4';
+      const result = await callWithResponse(new Response(Buffer.from('12345'), {
+        headers: { 'Content-Type': 'application/zip' },
+      }));
+
+      expect(result.content[0].type).toBe('text');
+      expect(result.content[0].text).toContain('application/zip, 5 bytes exceeds limit of 4 bytes');
+    });
+  });
+
+  describe('pagination', () => {
+    it('should merge pages and append continuation hint when truncated', async () => {
+      process.env.API_TOKEN = 'test-token';
+      await server.initialize(path.join(process.cwd(), 'profiles/gitlab/openapi.yaml'));
+      const toolDef = server['profile']!.tools.find(t => t.operations?.execute === 'getApiV4ProjectsIdBadges')!;
+      toolDef.pagination = { type: 'link', max_pages: 2 };
+
+      const requestedUrls: string[] = [];
+      const originalFetch = global.fetch;
+      global.fetch = async (url: RequestInfo | URL) => {
+        requestedUrls.push(url.toString());
+        const page = Number(new URL(url.toString()).searchParams.get('page') || 1);
+        return new Response(JSON.stringify([{ id: String(page), name: `badge-${page}` }]), {
+          headers: {
+            'Content-Type': 'application/json',
+            Link: `<https://gitlab.example.com/api/v4/projects/123/badges?page=${page + 1}>; rel="next"`,
+          },
+        });
+      };
+
+      try {
+        const response = await (server as any)['handleToolCall']({
+          jsonrpc: '2.0',
+          id: '1',
+          method: 'tools/call',
+          params: { name: toolDef.name, arguments: { id: '123' } },
+        });
+
+        expect(requestedUrls).toHaveLength(2);
+        expect(JSON.parse(response.result.content[0].text).map((b: { id: string }) => b.id)).toEqual(['1', '2']);
+        expect(response.result.content[1].text).toContain('call the tool again with {"page":"3"}');
+      } finally {
+        global.fetch = originalFetch;
+        delete process.env.API_TOKEN;
+      }
+    });
+  });
+
+  describe('x-mcp-response-fields', () => {
+    it('should filter results of default profile tools without action', async () => {
+      const fs = await import('fs/promises');
+      const specPath = '/tmp/mcp-server-response-fields.json';
+      process.env.API_TOKEN = 'test-token';
+      await fs.writeFile(specPath, JSON.stringify({
+        openapi: '3.0.0',
+        info: { title: 'Fields API', version: '1.0' },
+        servers: [{ url: 'https://api.example.com' }],
+        security: [{ bearerAuth: [] }],
+        components: { securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } } },
+        paths: {
+          '/items': {
+            get: { operationId: 'listItems', 'x-mcp-response-fields': ['id'], responses: {} },
+          },
+        },
+      }));
+      await server.initialize(specPath);
+
+      const originalFetch = global.fetch;
+      global.fetch = async () => new Response(JSON.stringify([{ id: 1, secret: 'x' }]), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      try {
+        const result = await (server as any).executeSimpleTool(server['profile']!.tools[0], {}, undefined);
+        expect(result).toEqual([{ id: 1 }]);
+      } finally {
+        global.fetch = originalFetch;
+        delete process.env.API_TOKEN;
+      }
+    });
+  });
+
+  describe('header and cookie parameters', () => {
+    it('should send header and cookie arguments as headers, not body', async () => {
+      const fs = await import('fs/promises');
+      const specPath = '/tmp/mcp-server-header-params.json';
+      process.env.API_TOKEN = 'test-token';
+      await fs.writeFile(specPath, JSON.stringify({
+        openapi: '3.0.0',
+        info: { title: 'Header API', version: '1.0' },
+        servers: [{ url: 'https://api.example.com' }],
+        security: [{ bearerAuth: [] }],
+        components: { securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } } },
+        paths: {
+          '/items': {
+            post: {
+              operationId: 'createItem',
+              parameters: [
+                { name: 'X-Api-Version', in: 'header', schema: { type: 'string' } },
+                { name: 'session_id', in: 'cookie', schema: { type: 'string' } },
+              ],
+              requestBody: {
+                content: { 'application/json': { schema: { type: 'object', properties: { name: { type: 'string' } } } } },
+              },
+              responses: {},
+            },
+          },
+        },
+      }));
+      await server.initialize(specPath);
+
+      let captured: RequestInit | undefined;
+      const originalFetch = global.fetch;
+      global.fetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+        captured = init;
+        return new Response(JSON.stringify({ id: 1 }), { status: 201, headers: { 'Content-Type': 'application/json' } });
+      };
+
+      try {
+        await (server as any).executeSimpleTool(server['profile']!.tools[0], {
+          'X-Api-Version': '2',
+          session_id: 'abc',
+          name: 'item',
+        }, undefined);
+
+        const headers = captured?.headers as Record<string, string>;
+        expect(headers['X-Api-Version']).toBe('2');
+        expect(headers['Cookie']).toBe('session_id=abc');
+        expect(JSON.parse(captured?.body as string)).toEqual({ name: 'item' });
+      } finally {
+        global.fetch = originalFetch;
+        delete process.env.API_TOKEN;
+      }
+    });
+  });
+
+  describe('idempotency keys', () => {
+    it('should send key and return it in tool result _meta', async () => {
+      const fs = await import('fs/promises');
+      const dir = '/tmp/mcp-server-idempotency';
+      process.env.API_TOKEN = 'test-token';
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(`${dir}/openapi.json`, JSON.stringify({
+        openapi: '3.0.0',
+        info: { title: 'Items API', version: '1.0' },
+        servers: [{ url: 'https://api.example.com' }],
+        paths: { '/items': { post: { operationId: 'createItem', responses: { 201: { description: 'Created' } } } } },
+      }));
+      await fs.writeFile(`${dir}/profile.json`, JSON.stringify({
+        profile_name: 'idempotency-test',
+        tools: [{ name: 'create_item', description: 'Create item', operations: { create: 'createItem' }, parameters: {} }],
+        interceptors: {
+          auth: { type: 'bearer', value_from_env: 'API_TOKEN' },
+          idempotency: { header_name: 'X-Idempotency-Key', operations: { createItem: {} } },
+        },
+      }));
+      await server.initialize(`${dir}/openapi.json`, `${dir}/profile.json`);
+
+      let sentKey: string | undefined;
+      const originalFetch = global.fetch;
+      global.fetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+        sentKey = (init?.headers as Record<string, string>)['X-Idempotency-Key'];
+        return new Response(JSON.stringify({ id: 1 }), { status: 201, headers: { 'Content-Type': 'application/json' } });
+      };
+
+      try {
+        const response = await (server as any)['handleToolCall']({
+          jsonrpc: '2.0',
+          id: '1',
+          method: 'tools/call',
+          params: { name: 'create_item', arguments: {} },
+        });
+
+        expect(sentKey).toMatch(/^[0-9a-f-]{36}$/);
+        expect(response.result._meta).toEqual({ idempotencyKey: sentKey });
+        expect(JSON.parse(response.result.content[0].text)).toEqual({ id: 1 });
+      } finally {
+        global.fetch = originalFetch;
+        delete process.env.API_TOKEN;
+      }
+    });
+  });
+
+  describe('hot reload', () => {
+    const dir = '/tmp/mcp-server-reload';
+    const specPath = `${dir}/openapi.json`;
+    const profilePath = `${dir}/profile.json`;
+
+    function profileWithTools(...names: string[]) {
+      return JSON.stringify({
+        profile_name: 'reload-test',
+        tools: names.map(name => ({
+          name,
+          description: `Tool ${name}`,
+          operations: { get: 'getItem' },
+          parameters: {},
+        })),
+      });
+    }
+
+    beforeEach(async () => {
+      const fs = await import('fs/promises');
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(specPath, JSON.stringify({
+        openapi: '3.0.0',
+        info: { title: 'Reload API', version: '1.0' },
+        servers: [{ url: 'https://api.example.com' }],
+        paths: { '/items': { get: { operationId: 'getItem', responses: { 200: { description: 'OK' } } } } },
+      }));
+      await fs.writeFile(profilePath, profileWithTools('first_tool'));
+      await server.initialize(specPath, profilePath);
+    });
+
+    it('should swap profile and notify sessions on reload', async () => {
+      const fs = await import('fs/promises');
+      const sent: unknown[] = [];
+      (server as any).httpTransport = { broadcast: (message: unknown) => sent.push(message), stop: async () => {} };
+
+      await fs.writeFile(profilePath, profileWithTools('first_tool', 'second_tool'));
+
+      expect(await server.reload()).toBe(true);
+      expect(server['profile']!.tools.map(t => t.name)).toEqual(['first_tool', 'second_tool']);
+      expect(sent).toEqual([{ jsonrpc: '2.0', method: 'notifications/tools/list_changed' }]);
+    });
+
+    it('should keep previous configuration when new profile is invalid', async () => {
+      const fs = await import('fs/promises');
+      const previousParser = server['parser'];
+      await fs.writeFile(profilePath, '{ "profile_name": ');
+
+      expect(await server.reload()).toBe(false);
+      expect(server['profile']!.tools.map(t => t.name)).toEqual(['first_tool']);
+      expect(server['parser']).toBe(previousParser);
+    });
+
+    it('should keep tools and request routing when new profile fails after loading', async () => {
+      const fs = await import('fs/promises');
+      const withAuth = (profile: string, interceptors: object) =>
+        JSON.stringify({ ...JSON.parse(profile), interceptors });
+      const auth = { type: 'bearer', value_from_env: 'API_TOKEN' };
+      process.env.API_TOKEN = 'test-token';
+      await fs.writeFile(profilePath, withAuth(profileWithTools('first_tool'), { auth }));
+      await server.initialize(specPath, profilePath);
+
+      const requested: string[] = [];
+      const originalFetch = global.fetch;
+      global.fetch = async (url: RequestInfo | URL) => {
+        requested.push(String(url));
+        return new Response('{}', { status: 200, headers: { 'Content-Type': 'application/json' } });
+      };
+
+      try {
+        await fs.writeFile(profilePath, withAuth(profileWithTools('first_tool', 'second_tool'), {
+          auth,
+          base_url: { server_description: 'Missing server' },
+        }));
+        expect(await server.reload()).toBe(false);
+
+        const list = await (server as any)['handleJsonRpcMessage']({ jsonrpc: '2.0', id: '1', method: 'tools/list' });
+        expect(list.result.tools.map((t: { name: string }) => t.name)).toEqual(['first_tool']);
+
+        const response = await (server as any)['handleToolCall']({
+          jsonrpc: '2.0',
+          id: '2',
+          method: 'tools/call',
+          params: { name: 'first_tool', arguments: { action: 'get' } },
+        });
+        expect(response.result.isError).toBeFalsy();
+        expect(requested).toEqual(['https://api.example.com/items']);
+      } finally {
+        global.fetch = originalFetch;
+        delete process.env.API_TOKEN;
+      }
+    });
+
+    it('should watch files first referenced by failed reload', async () => {
+      const fs = await import('fs/promises');
+      server.watch();
+
+      try {
+        await fs.writeFile(specPath, JSON.stringify({
+          openapi: '3.0.0',
+          info: { title: 'Reload API', version: '1.0' },
+          paths: { '/items': { $ref: './items.json' } },
+        }));
+        expect(await server.reload()).toBe(false);
+
+        const watched = [...server['configWatcher']!['files']];
+        expect(watched).toEqual(expect.arrayContaining([specPath, profilePath, `${dir}/items.json`]));
+      } finally {
+        await server.stop();
+      }
+    });
+  });
+
+  describe('index cache', () => {
+    const specPath = path.join(process.cwd(), 'profiles/gitlab/openapi.yaml');
+    const cacheDir = '/tmp/mcp-server-index-cache';
+
+    afterEach(async () => {
+      const fs = await import('fs/promises');
+      delete process.env.MCP_CACHE_DIR;
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should reuse cached index and default profile on next start', async () => {
+      process.env.MCP_CACHE_DIR = cacheDir;
+      await server.initialize(specPath);
+
+      const cachedServer = new MCPServer();
+      const loadSpy = vi.spyOn(OpenAPIParser.prototype, 'load');
+      await cachedServer.initialize(specPath);
+
+      expect(loadSpy).not.toHaveBeenCalled();
+      expect(cachedServer['profile']).toEqual(server['profile']);
+      expect(cachedServer['parser'].getAllOperations()).toEqual(server['parser'].getAllOperations());
+      loadSpy.mockRestore();
+    });
+  });
+
   describe('error sanitization', () => {
     it('should return user-friendly error message with correlation ID from HTTP handleToolCall', async () => {
       const specPath = path.join(process.cwd(), 'profiles/gitlab/openapi.yaml');
@@ -151,6 +569,39 @@ describe('MCPServer', () => {
     });
   });
 
+  describe('correlation ID', () => {
+    it('should log request and report error with same correlation ID', async () => {
+      process.env.API_TOKEN = 'test-token';
+      await server.initialize(path.join(process.cwd(), 'profiles/gitlab/openapi.yaml'));
+      const debugSpy = vi.spyOn(server['logger'], 'debug');
+
+      const originalFetch = global.fetch;
+      global.fetch = async () => new Response('{"message":"boom"}', {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      try {
+        const response = await (server as any)['handleToolCall']({
+          jsonrpc: '2.0',
+          id: '1',
+          method: 'tools/call',
+          params: { name: 'getApiV4ProjectsIdBadgesBadgeId', arguments: { id: '123', badge_id: 1 } },
+        });
+
+        const logged = debugSpy.mock.calls.filter(([message]) => message === 'Executing HTTP request');
+        const correlationId = (logged[0][1] as Record<string, unknown>).correlationId;
+
+        expect(logged).toHaveLength(1);
+        expect(correlationId).toMatch(/^[0-9a-f-]{36}$/);
+        expect(response.error.message).toContain(`(correlation ID: ${correlationId})`);
+      } finally {
+        global.fetch = originalFetch;
+        debugSpy.mockRestore();
+        delete process.env.API_TOKEN;
+      }
+    });
+  });
+
   describe('security warnings', () => {
     it('should warn when binding non-localhost with empty ALLOWED_ORIGINS', async () => {
       const messages: string[] = [];
@@ -212,6 +663,16 @@ describe('MCPServer', () => {
       expect(formatted).toContain(correlationId);
     });
 
+    it('should include upstream quota in RateLimitError message', () => {
+      const server = new MCPServer();
+      const error = new RateLimitError('Upstream API rate limit quota exhausted', 30);
+      error.details = { ...error.details, quota: { limit: 100, remaining: 0, resetInSeconds: 30 } };
+
+      const formatted = (server as any).formatErrorForClient(error, 'test-correlation-id');
+
+      expect(formatted).toContain('Upstream quota: 0/100 remaining, resets in 30 seconds.');
+    });
+
     it('should format NetworkError (4xx) with correlation ID for client', () => {
       const server = new MCPServer();
       const error = new NetworkError('Not found', 404);
@@ -239,6 +700,18 @@ describe('MCPServer', () => {
       expect(formatted).not.toContain('Internal server error');
     });
 
+    it('should format TimeoutError with correlation ID for client', () => {
+      const server = new MCPServer();
+      const error = new TimeoutError('getProject did not respond within 5000ms', 5000);
+      const correlationId = 'test-correlation-id';
+      
+      const formatted = (server as any).formatErrorForClient(error, correlationId);
+      
+      expect(formatted).toContain('Request timed out');
+      expect(formatted).toContain('within 5000ms');
+      expect(formatted).toContain(correlationId);
+    });
+
     it('should format ValidationError with correlation ID for client', () => {
       const server = new MCPServer();
       const error = new ValidationError('Invalid parameter format');
@@ -11,6 +11,7 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 
 import { OpenAPIParser } from './openapi-parser.js';
 import { ProfileLoader } from './profile-loader.js';
@@ -24,12 +25,23 @@ import {
   AuthorizationError,
   RateLimitError,
   NetworkError,
+  TimeoutError,
   generateCorrelationId,
   isMCPError
 } from './errors.js';
 import { InterceptorChain, HttpClient } from './interceptors.js';
 import { HttpClientFactory } from './http-client-factory.js';
 import { SchemaValidator } from './schema-validator.js';
+import { ConfigWatcher } from './config-watcher.js';
+import { IndexCache } from './index-cache.js';
+import { selectServer, resolveServerUrl, getServerVariableValues } from './server-url.js';
+import { paginate, getPaginationConfig, formatContinuation, PaginatedResult } from './paginator.js';
+import { BinaryBody, toBinaryContent, binaryMaxBytes } from './response-content.js';
+import { IdempotentResult } from './idempotency.js';
+import { extractHeaderParams, findSensitiveParams } from './header-params.js';
+import { OutboundAgents } from './outbound-agents.js';
+import type { QuotaSnapshot } from './upstream-quota.js';
+import { selectMediaType, getRequestBodySchema, resolveFileParts, MULTIPART_MEDIA_TYPE } from './request-body.js';
 import type { Profile, ToolDefinition, AuthInterceptor, OAuthConfig } from './types/profile.js';
 import type { Logger } from './logger.js';
 import { ConsoleLogger, JsonLogger } from './logger.js';
@@ -38,6 +50,19 @@ import { isInitializeRequest, isToolCallRequest } from './jsonrpc-validator.js';
 import { generateNameWarnings, type NameWarningOptions } from './naming-warnings.js';
 import { NamingStrategy, type OperationForNaming } from './naming.js';
 
+/**
+ * Loaded configuration with everything that can fail already built
+ */
+interface PreparedConfiguration {
+  parser: OpenAPIParser;
+  profile: Profile;
+  baseUrl: string;
+  envToken?: string; // Set for stdio transport: global client uses it
+  agents: OutboundAgents;
+  logger?: Logger; // With redaction of profile's auth and sensitive params
+  sensitiveParams: string[];
+}
+
 export class MCPServer {
   private server: Server;
   private parser: OpenAPIParser;
@@ -48,13 +73,16 @@ export class MCPServer {
   private schemaValidator: SchemaValidator;
   private logger: Logger;
   private httpTransport: any = null;
+  private specPath?: string;
+  private profilePath?: string;
+  private configWatcher?: ConfigWatcher;
 
   /**
    * Filter response object to include only specified fields
    * Supports nested objects but keeps first level of arrays
    */
   private filterFields(data: unknown, fields: string[]): unknown {
-    if (!data || typeof data !== 'object') {
+    if (!data || typeof data !== 'object' || data instanceof BinaryBody) {
       return data;
     }
 
@@ -94,7 +122,16 @@ export class MCPServer {
       const retryInfo = error.details?.retryAfter 
         ? ` Retry after ${error.details.retryAfter} seconds.`
         : '';
-      return `Rate limit exceeded: ${error.message}${retryInfo} (correlation ID: ${correlationId})`;
+      const quota = error.details?.quota as QuotaSnapshot | undefined;
+      const quotaInfo = quota
+        ? ` Upstream quota: ${quota.remaining}${quota.limit !== undefined ? `/${quota.limit}` : ''} remaining, resets in ${quota.resetInSeconds} seconds.`
+        : '';
+      return `Rate limit exceeded: ${error.message}${retryInfo}${quotaInfo} (correlation ID: ${correlationId})`;
+    }
+
+    // Timeouts - safe to show (upstream slow, not our internals)
+    if (error instanceof TimeoutError) {
+      return `Request timed out: ${error.message} (correlation ID: ${correlationId})`;
     }
 
     // Network errors with 4xx status - safe to show (client errors)
@@ -134,7 +171,7 @@ export class MCPServer {
       },
       {
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
         },
       }
     );
@@ -146,62 +183,231 @@ export class MCPServer {
   }
 
   async initialize(specPath: string, profilePath?: string): Promise<void> {
+    this.specPath = specPath;
+    this.profilePath = profilePath;
+
+    const { parser, profile } = await this.loadConfiguration(specPath, profilePath);
+    this.applyConfiguration(this.prepareConfiguration(parser, profile));
+
+    this.logger.info('MCP server initialized', {
+      baseUrl: this.getBaseUrl(),
+      toolCount: profile.tools.length,
+    });
+  }
+
+  /**
+   * Reload spec and profile from disk
+   *
+   * Why keep previous on error: A half-edited profile must not take down a
+   * running server. Clients keep working with the last valid configuration.
+   * Files the failed attempt referenced are watched too, so fixing a newly
+   * referenced file triggers the next reload.
+   *
+   * @returns true if new configuration was applied
+   */
+  async reload(): Promise<boolean> {
+    if (!this.specPath) {
+      throw new ConfigurationError('Server not initialized. Call initialize() first.');
+    }
+
+    const parser = new OpenAPIParser();
+    try {
+      const { profile } = await this.loadConfiguration(this.specPath, this.profilePath, parser);
+
+      // Validate before swap: tool generation must succeed for every tool
+      const generator = new ToolGenerator(parser);
+      profile.tools.forEach(toolDef => generator.generateTool(toolDef));
+
+      this.applyConfiguration(this.prepareConfiguration(parser, profile));
+    } catch (error) {
+      this.logger.error('Reload failed, keeping previous configuration', error as Error, {
+        specPath: this.specPath,
+        profilePath: this.profilePath,
+      });
+      this.configWatcher?.watch([...new Set([...this.getWatchedFiles(), ...this.getWatchedFiles(parser)])]);
+      return false;
+    }
+
+    this.logger.info('Configuration reloaded', { toolCount: this.profile!.tools.length });
+    this.configWatcher?.watch(this.getWatchedFiles());
+    await this.notifyToolListChanged();
+    return true;
+  }
+
+  /**
+   * Watch spec and profile files, reload on change
+   *
+   * Why serialized: Reloads triggered by quick successive saves must apply
+   * in order, otherwise an older snapshot could win.
+   */
+  watch(): void {
+    if (!this.specPath) {
+      throw new ConfigurationError('Server not initialized. Call initialize() first.');
+    }
+    if (this.configWatcher) return;
+
+    let pending: Promise<unknown> = Promise.resolve();
+    this.configWatcher = new ConfigWatcher(() => {
+      pending = pending.then(() => this.reload());
+      return pending;
+    }, this.logger);
+    this.configWatcher.watch(this.getWatchedFiles());
+
+    this.logger.info('Watching spec and profile for changes', { files: this.getWatchedFiles() });
+  }
+
+  private getWatchedFiles(parser: OpenAPIParser = this.parser): string[] {
+    const files = [...parser.getSourceFiles()];
+    if (this.profilePath) {
+      files.push(this.profilePath);
+    }
+    return files;
+  }
+
+  /**
+   * Load and validate spec and profile without touching current state
+   *
+   * @param parser Parser to load spec into (reload reads its files even on failure)
+   */
+  private async loadConfiguration(
+    specPath: string,
+    profilePath?: string,
+    parser: OpenAPIParser = new OpenAPIParser()
+  ): Promise<{ parser: OpenAPIParser; profile: Profile }> {
+    // Why opt-in: Cache directory must be writable and survive restarts (volume or image layer)
+    const cache = process.env.MCP_CACHE_DIR
+      ? new IndexCache(process.env.MCP_CACHE_DIR, this.logger)
+      : undefined;
+    const cached = await cache?.load(specPath);
+
     // Load OpenAPI spec
-    await this.parser.load(specPath);
+    if (cached) {
+      parser.loadSnapshot(cached.parser);
+    } else {
+      await parser.load(specPath);
+    }
     this.logger.info('Loaded OpenAPI spec', { specPath });
 
     // Load or create MCP profile
     if (profilePath) {
+      if (cache && !cached) {
+        await cache.save(specPath, { parser: parser.toSnapshot() });
+      }
+
       const loader = new ProfileLoader();
-      this.profile = await loader.load(profilePath);
+      const profile = await loader.load(profilePath);
       this.logger.info('Loaded profile', {
-        profile: this.profile.profile_name,
-        toolCount: this.profile.tools.length,
+        profile: profile.profile_name,
+        toolCount: profile.tools.length,
       });
-    } else {
-      this.profile = ProfileLoader.createDefaultProfile('default', this.parser);
-      this.logger.info('Using auto-generated default profile', {
-        profile: this.profile.profile_name,
-        toolCount: this.profile.tools.length,
-      });
-      
-      // Check if we should warn about long names
-      this.checkToolNameLengths();
+      return { parser, profile };
     }
 
-    // Re-create logger with auth config for token redaction
-    const authConfigs = this.getAuthConfigs();
-    if (authConfigs.length > 0) {
+    let profile = cached?.defaultProfile;
+    if (!profile) {
+      profile = ProfileLoader.createDefaultProfile('default', parser);
+      if (cache) {
+        await cache.save(specPath, { parser: parser.toSnapshot(), defaultProfile: profile });
+      }
+    }
+    this.logger.info('Using auto-generated default profile', {
+      profile: profile.profile_name,
+      toolCount: profile.tools.length,
+    });
+
+    // Check if we should warn about long names
+    this.checkToolNameLengths(parser);
+
+    return { parser, profile };
+  }
+
+  /**
+   * Build everything of new configuration that can fail, without touching current state
+   *
+   * Why: A reload failing halfway (unknown server, missing certificate) must
+   * leave previous tools, clients and agents in place.
+   */
+  private prepareConfiguration(parser: OpenAPIParser, profile: Profile): PreparedConfiguration {
+    const baseUrl = this.getBaseUrl(parser, profile);
+
+    const authConfigs = this.getAuthConfigs(profile);
+    const authConfig = authConfigs[0];
+    const envToken = authConfig?.value_from_env ? process.env[authConfig.value_from_env] : undefined;
+    if (envToken) {
+      // Global client is built on apply; interceptor config errors must surface now
+      new InterceptorChain(profile.interceptors || {}, envToken);
+    }
+
+    // Re-create logger with auth config, sensitive header/cookie params and headers for redaction
+    const sensitiveParams = [
+      ...findSensitiveParams(parser.getAllOperations()),
+      ...(profile.interceptors?.headers?.sensitive ?? []),
+    ];
+    const logger = authConfigs.length > 0 || sensitiveParams.length > 0
       // Use first auth config for logger (primary)
-      this.logger = this.createLoggerWithAuth(authConfigs[0]);
+      ? this.createLoggerWithAuth(authConfig, sensitiveParams)
+      : undefined;
+
+    // Proxy/TLS files are read last, so agents never leak when something above fails
+    const agents = new OutboundAgents(profile.interceptors);
+
+    return { parser, profile, baseUrl, envToken, agents, logger, sensitiveParams };
+  }
+
+  /**
+   * Swap in prepared spec and profile
+   *
+   * Why synchronous: No await between assignments, so concurrent tool calls
+   * never see new profile with old parser (or vice versa).
+   */
+  private applyConfiguration(prepared: PreparedConfiguration): void {
+    const { parser, profile, baseUrl, envToken, agents, logger } = prepared;
+    this.parser = parser;
+    this.profile = profile;
+    this.toolGenerator = new ToolGenerator(parser);
+
+    if (logger) {
+      this.logger = logger;
       this.logger.info('Logger re-configured with auth token redaction', {
-        authMethods: authConfigs.length,
+        authMethods: this.getAuthConfigs().length,
+        sensitiveParams: prepared.sensitiveParams.length,
       });
     }
 
+    // Cached clients carry interceptors of previous profile
+    this.httpClientFactory.clearClients();
+    this.httpClientFactory.setAgents(agents);
+
     // Setup HTTP client with interceptors
     // For stdio transport, create client with env token
     // For HTTP transport, clients are created per-session with user's token
-    const baseUrl = this.getBaseUrl();
-    const authConfig = this.getPrimaryAuthConfig();
-    const hasAuth = !!authConfig;
-    const envToken = hasAuth && authConfig.value_from_env ? process.env[authConfig.value_from_env] : undefined;
-
-    if (hasAuth && envToken) {
+    if (envToken) {
       // Token available in env - create global client (stdio transport)
       const httpClient = this.httpClientFactory.createGlobalClient({
-        profile: this.profile,
+        profile,
         baseUrl,
       });
-      this.compositeExecutor = new CompositeExecutor(this.parser, httpClient);
+      this.compositeExecutor = new CompositeExecutor(parser, httpClient);
     } else {
       // No env token or no auth - will use per-session clients (HTTP transport)
-      this.compositeExecutor = new CompositeExecutor(this.parser);
+      this.compositeExecutor = new CompositeExecutor(parser);
     }
-    
-    this.logger.info('MCP server initialized', {
-      baseUrl,
-      toolCount: this.profile.tools.length,
+  }
+
+  /**
+   * Notify connected clients that tool list changed
+   *
+   * Why both: stdio clients are connected through SDK server, HTTP clients
+   * receive notifications on their SSE streams.
+   */
+  private async notifyToolListChanged(): Promise<void> {
+    if (this.server.transport) {
+      await this.server.sendToolListChanged();
+    }
+
+    this.httpTransport?.broadcast({
+      jsonrpc: '2.0',
+      method: 'notifications/tools/list_changed',
     });
   }
 
@@ -210,21 +416,21 @@ export class MCPServer {
    * 
    * Why: Prevents sensitive tokens from appearing in logs
    */
-  private createLoggerWithAuth(authConfig: AuthInterceptor): Logger {
+  private createLoggerWithAuth(authConfig: AuthInterceptor | undefined, sensitiveParams: string[] = []): Logger {
     const logFormat = process.env.LOG_FORMAT || 'console';
     const logLevel = this.logger instanceof ConsoleLogger || this.logger instanceof JsonLogger
       ? (this.logger as any).level
       : undefined;
     
     return logFormat === 'json'
-      ? new JsonLogger(logLevel, authConfig)
-      : new ConsoleLogger(logLevel, authConfig);
+      ? new JsonLogger(logLevel, authConfig, sensitiveParams)
+      : new ConsoleLogger(logLevel, authConfig, sensitiveParams);
   }
 
   /**
    * Check tool name lengths and warn if needed
    */
-  private checkToolNameLengths(): void {
+  private checkToolNameLengths(parser: OpenAPIParser): void {
     const maxLength = parseInt(process.env.MCP_TOOLNAME_MAX || '45', 10);
     const strategy = (process.env.MCP_TOOLNAME_STRATEGY || 'none').toLowerCase() as NamingStrategy;
     const warnOnly = (process.env.MCP_TOOLNAME_WARN_ONLY || 'true').toLowerCase() === 'true';
@@ -234,8 +440,8 @@ export class MCPServer {
       return; // Names already shortened, no need to warn
     }
     
-    // Get all operations as OperationForNaming
-    const operations = this.parser.getAllOperations();
+    // Get all operations as OperationForNaming (x-mcp-ignore'd ones have no tool)
+    const operations = parser.getAllOperations().filter(op => !op.mcp?.ignore);
     const opsForNaming: OperationForNaming[] = operations.map(op => ({
       operationId: op.operationId,
       method: op.method,
@@ -256,25 +462,29 @@ export class MCPServer {
 
   /**
    * Get base URL from profile config or OpenAPI spec
+   *
+   * Priority: env var > profile default > spec server selected by profile
+   * (server_description / server_index) with variables substituted
    */
-  private getBaseUrl(): string {
-    const baseUrlConfig = this.profile?.interceptors?.base_url;
+  private getBaseUrl(parser: OpenAPIParser = this.parser, profile: Profile | undefined = this.profile): string {
+    const baseUrlConfig = profile?.interceptors?.base_url;
     
     if (baseUrlConfig) {
-      const envValue = process.env[baseUrlConfig.value_from_env];
+      const envValue = baseUrlConfig.value_from_env ? process.env[baseUrlConfig.value_from_env] : undefined;
       if (envValue) return envValue;
       if (baseUrlConfig.default) return baseUrlConfig.default;
     }
 
-    return this.parser.getBaseUrl();
+    const server = selectServer(parser.getServers(), baseUrlConfig);
+    return server ? resolveServerUrl(server, getServerVariableValues(baseUrlConfig)) : '';
   }
 
   /**
    * Get auth configurations as array (supports single or multiple auth methods)
    * Returns array sorted by priority (lower = higher priority)
    */
-  private getAuthConfigs(): AuthInterceptor[] {
-    const auth = this.profile?.interceptors?.auth;
+  private getAuthConfigs(profile: Profile | undefined = this.profile): AuthInterceptor[] {
+    const auth = profile?.interceptors?.auth;
     if (!auth) return [];
     
     const configs = Array.isArray(auth) ? auth : [auth];
@@ -339,6 +549,7 @@ export class MCPServer {
       profile: this.profile,
       baseUrl: this.getBaseUrl(),
       sessionToken: authToken,
+      session: { id: sessionId },
     });
   }
 
@@ -393,6 +604,8 @@ export class MCPServer {
 
     // Execute tool
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      // One ID per tool call: sent in ${correlation_id} headers, logged, shown in errors
+      const correlationId = generateCorrelationId();
       try {
         if (!this.profile || !this.compositeExecutor) {
           throw new ConfigurationError('Server not initialized. Call initialize() first.');
@@ -415,7 +628,9 @@ export class MCPServer {
           const compositeResult = await this.compositeExecutor.execute(
             toolDef.steps,
             args,
-            toolDef.partial_results || false
+            toolDef.partial_results || false,
+            undefined,
+            correlationId
           );
           
           // Include metadata about completion
@@ -426,23 +641,16 @@ export class MCPServer {
               total_steps: compositeResult.total_steps,
               success: compositeResult.completed_steps === compositeResult.total_steps,
               errors: compositeResult.errors,
+              pagination: compositeResult.pagination,
+              idempotency_keys: compositeResult.idempotency_keys,
             },
           };
         } else {
-          result = await this.executeSimpleTool(toolDef, args);
+          result = await this.executeSimpleTool(toolDef, args, undefined, correlationId);
         }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        return this.buildToolResult(toolDef, result);
       } catch (err) {
-        // Generate correlation ID only on error (lazy)
-        const correlationId = generateCorrelationId();
         this.logger.error('CallTool handler error', err as Error, { 
           correlationId,
           toolName: request.params.name,
@@ -456,6 +664,47 @@ export class MCPServer {
     });
   }
 
+  /**
+   * Build CallTool result with text and structured content
+   *
+   * Why both: Clients without structured output support read the text block;
+   * others consume structuredContent matching the tool's outputSchema.
+   * Binary responses become a single image or embedded resource block.
+   * Truncated paginated results get a continuation hint block.
+   * Idempotency key of a write goes to _meta.
+   */
+  private buildToolResult(toolDef: ToolDefinition, result: unknown): CallToolResult {
+    if (result instanceof PaginatedResult) {
+      const toolResult = this.buildToolResult(toolDef, result.body);
+      toolResult.content.push({ type: 'text', text: formatContinuation(result.continuation) });
+      return toolResult;
+    }
+
+    if (result instanceof IdempotentResult) {
+      const toolResult = this.buildToolResult(toolDef, result.body);
+      return { ...toolResult, _meta: { ...toolResult._meta, idempotencyKey: result.idempotencyKey } };
+    }
+
+    const structuredContent = this.toolGenerator.buildStructuredContent(toolDef, result);
+
+    if (result instanceof BinaryBody) {
+      return {
+        content: [toBinaryContent(result, binaryMaxBytes())],
+        ...(structuredContent && { structuredContent }),
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+      ...(structuredContent && { structuredContent }),
+    };
+  }
+
   /**
    * Execute simple (non-composite) tool
    *
@@ -465,13 +714,15 @@ export class MCPServer {
   private async executeSimpleTool(
     toolDef: ToolDefinition,
     args: Record<string, unknown>,
-    sessionId?: string
+    sessionId?: string,
+    correlationId?: string
   ): Promise<unknown> {
     this.logger.debug('Executing simple tool', {
       toolName: toolDef.name,
       action: args['action'],
       resourceType: args['resource_type'],
-      sessionId
+      sessionId,
+      correlationId
     });
 
     const operationId = this.toolGenerator.mapActionToOperation(toolDef, args);
@@ -496,14 +747,19 @@ export class MCPServer {
     // Build request
     const path = this.resolvePath(operation.path, args);
     const queryParams = this.extractQueryParams(operation, args);
-    const body = this.extractBody(operation, args, toolDef);
+    const headerParams = extractHeaderParams(operation, args);
+    let body = this.extractBody(operation, args, toolDef);
+    const mediaType = selectMediaType(operation.requestBody);
 
     this.logger.debug('Executing HTTP request', {
       operationId,
+      correlationId,
       method: operation.method,
       path,
       hasQueryParams: Object.keys(queryParams).length > 0,
-      hasBody: !!body
+      headers: headerParams,
+      hasBody: !!body,
+      mediaType: body ? mediaType : undefined,
     });
 
     // Validate request body against schema
@@ -521,24 +777,52 @@ export class MCPServer {
       }
     }
 
+    // File fields: content or local path (stdio only - HTTP clients must not read server files)
+    if (body && mediaType.toLowerCase().startsWith(MULTIPART_MEDIA_TYPE)) {
+      body = await resolveFileParts(body, getRequestBodySchema(operation.requestBody), {
+        allowLocalFiles: !this.httpTransport,
+      });
+    }
+
+    // Single-operation tools without action (e.g., default profile) use their operation key
+    const operationKeys = Object.keys(toolDef.operations || {});
+    const action = (args.action as string | undefined) ??
+      (operationKeys.length === 1 ? operationKeys[0] : undefined);
+
     // Execute with session-specific client
     const httpClient = this.getHttpClientForSession(sessionId);
-    const response = await httpClient.request(operation.method, path, {
+    const requestOptions = {
       params: queryParams,
+      headers: headerParams,
       body,
       operationId: operationId,
-    });
+      servers: operation.servers,
+      mediaType,
+      correlationId,
+    };
+    const pagination = getPaginationConfig(toolDef.pagination, operation.method, action);
+    const response = pagination
+      ? await paginate(httpClient, operation.method, path, requestOptions, pagination)
+      : await httpClient.request(operation.method, path, requestOptions);
 
     // Apply response field filtering if configured
     let result = response.body;
-    if (toolDef.response_fields) {
-      const action = args.action as string | undefined;
-      if (action && toolDef.response_fields[action]) {
-        const fields = toolDef.response_fields[action];
-        result = this.filterFields(result, fields);
-      }
+    if (toolDef.response_fields && action && toolDef.response_fields[action]) {
+      result = this.filterFields(result, toolDef.response_fields[action]);
     }
 
+    if ('continuation' in response && response.continuation) {
+      return new PaginatedResult(result, response.continuation);
+    }
+    if ('idempotencyKey' in response && response.idempotencyKey) {
+      this.logger.info('Sent request with idempotency key', {
+        operationId,
+        idempotencyKey: response.idempotencyKey,
+        sessionId,
+        correlationId,
+      });
+      return new IdempotentResult(result, response.idempotencyKey);
+    }
     return result;
   }
 
@@ -606,7 +890,7 @@ export class MCPServer {
    * 
    * Why: For create/update operations, collect non-metadata fields into body.
    * Metadata (action, resource_type, etc.) are not sent to API.
-   * Path/query parameters are also excluded from body.
+   * Path/query/header/cookie parameters are also excluded from body.
    * 
    * Uses metadata_params from tool definition, defaults to ['action', 'resource_type']
    */
@@ -619,19 +903,14 @@ export class MCPServer {
     const metadataList = toolDef.metadata_params || ['action', 'resource_type'];
     const metadata = new Set(metadataList);
     
-    // Collect parameter names that go in path or query
-    const pathOrQuery = new Set<string>();
-    for (const param of operation.parameters) {
-      if (param.in === 'path' || param.in === 'query') {
-        pathOrQuery.add(param.name);
-      }
-    }
+    // Collect parameter names that go outside the body
+    const nonBody = new Set(operation.parameters.map(param => param.name));
     
     const body: Record<string, unknown> = {};
     let hasBody = false;
 
     for (const [key, value] of Object.entries(args)) {
-      if (!metadata.has(key) && !pathOrQuery.has(key) && value !== undefined) {
+      if (!metadata.has(key) && !nonBody.has(key) && value !== undefined) {
         body[key] = value;
         hasBody = true;
       }
@@ -691,6 +970,7 @@ export class MCPServer {
       oauthConfig, // Pass OAuth config if available
       baseUrl, // Pass base URL for token validation
       authConfigs, // Pass auth configs for token validation
+      dispatcherFor: this.httpClientFactory.dispatcherFor, // Proxy/TLS for token validation and OAuth
     };
 
     // Warn if binding to non-localhost without explicit ALLOWED_ORIGINS
@@ -701,6 +981,7 @@ export class MCPServer {
     }
 
     this.httpTransport = new HttpTransport(config, this.logger);
+    this.httpClientFactory.setMetrics(this.httpTransport.getMetricsCollector() ?? undefined);
     
     // Set message handler to process JSON-RPC messages
     this.httpTransport.setMessageHandler(async (message: unknown, sessionId?: string) => {
@@ -749,7 +1030,7 @@ export class MCPServer {
         version: '0.1.0',
       },
       capabilities: {
-        tools: {},
+        tools: { listChanged: true },
       },
     };
 
@@ -770,6 +1051,7 @@ export class MCPServer {
     const params = req.params as Record<string, unknown>;
     const toolName = params.name as string;
     const args = params.arguments as Record<string, unknown>;
+    const correlationId = generateCorrelationId();
 
     try {
       // Find tool definition
@@ -786,7 +1068,8 @@ export class MCPServer {
           toolDef.steps,
           args,
           toolDef.partial_results || false,
-          httpClient
+          httpClient,
+          correlationId
         );
         result = {
           data: compositeResult.data,
@@ -794,27 +1077,19 @@ export class MCPServer {
           total_steps: compositeResult.total_steps,
           success: compositeResult.completed_steps === compositeResult.total_steps,
           errors: compositeResult.errors,
+          pagination: compositeResult.pagination,
+          idempotency_keys: compositeResult.idempotency_keys,
         };
       } else {
-        result = await this.executeSimpleTool(toolDef, args, sessionId);
+        result = await this.executeSimpleTool(toolDef, args, sessionId, correlationId);
       }
 
       return {
         jsonrpc: '2.0',
         id: req.id,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        },
+        result: this.buildToolResult(toolDef, result),
       };
     } catch (error) {
-      // Generate correlation ID only on error (lazy)
-      const correlationId = generateCorrelationId();
-      
       // Log internal error details with correlation ID
       this.logger.error('Tool call error', error as Error, {
         correlationId,
@@ -887,6 +1162,9 @@ export class MCPServer {
    * Why: Cleanup resources, close connections, allow graceful shutdown
    */
   async stop(): Promise<void> {
+    this.configWatcher?.close();
+    this.configWatcher = undefined;
+
     if (this.httpTransport) {
       await this.httpTransport.stop();
     }
@@ -149,6 +149,68 @@ describe('MetricsCollector', () => {
     });
   });
 
+  describe('Response Cache and Deduplication Metrics', () => {
+    it('should record cache results', async () => {
+      metrics.recordCacheResult('getProject', 'hit');
+      metrics.recordCacheResult('getProject', 'miss');
+
+      const output = await metrics.getMetrics();
+
+      expect(output).toContain('test_api_cache_requests_total');
+      expect(output).toContain('result="hit"');
+      expect(output).toContain('result="miss"');
+    });
+
+    it('should record deduplicated requests', async () => {
+      metrics.recordDeduplicatedRequest('getProject');
+
+      const output = await metrics.getMetrics();
+
+      expect(output).toContain('test_api_deduplicated_requests_total{operation="getProject"} 1');
+    });
+  });
+
+  describe('Circuit Breaker Metrics', () => {
+    it('should record breaker state and rejections', async () => {
+      metrics.setCircuitBreakerState('getProject', 'half-open');
+      metrics.recordCircuitBreakerRejection('getProject');
+
+      const output = await metrics.getMetrics();
+
+      expect(output).toContain('test_circuit_breaker_state{breaker="getProject"} 2');
+      expect(output).toContain('test_circuit_breaker_rejected_requests_total{breaker="getProject"} 1');
+    });
+  });
+
+  describe('Upstream Quota Metrics', () => {
+    it('should report quotas from source on scrape', async () => {
+      let quotas = [{ upstream: 'api.example.com', identity: 'abc123', limit: 100, remaining: 40, resetInSeconds: 30 }];
+      metrics.observeUpstreamQuotas(() => quotas);
+
+      const output = await metrics.getMetrics();
+
+      expect(output).toContain('test_upstream_quota_remaining{upstream="api.example.com",identity="abc123"} 40');
+      expect(output).toContain('test_upstream_quota_limit{upstream="api.example.com",identity="abc123"} 100');
+      expect(output).toContain('test_upstream_quota_reset_seconds{upstream="api.example.com",identity="abc123"} 30');
+
+      quotas = [];
+      expect(await metrics.getMetrics()).not.toContain('identity="abc123"');
+    });
+  });
+
+  describe('Connection Pool Metrics', () => {
+    it('should report pool counts from source on scrape', async () => {
+      const stats = { origin: 'https://api.example.com', connected: 5, free: 2, queued: 3 };
+      metrics.observeConnectionPools(() => [stats]);
+
+      const output = await metrics.getMetrics();
+
+      expect(output).toContain('test_upstream_connections{origin="https://api.example.com",state="busy"} 3');
+      expect(output).toContain('test_upstream_connections{origin="https://api.example.com",state="idle"} 2');
+      expect(output).toContain('test_upstream_queued_requests{origin="https://api.example.com"} 3');
+    });
+  });
+
   describe('Disabled Metrics', () => {
     it('should not record metrics when disabled', async () => {
       const disabledMetrics = new MetricsCollector({ enabled: false });
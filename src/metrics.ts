@@ -8,9 +8,20 @@
  * - Session lifecycle (active, created, destroyed)
  * - MCP operations (tool calls, duration, errors)
  * - API calls to backend (operation, status, duration)
+ * - Response cache lookups (operation, hit/miss/revalidated)
+ * - Deduplicated API requests (operation)
+ * - Circuit breakers (state, rejected requests)
+ * - Upstream connection pools (busy/idle connections, queued requests)
+ * - Upstream limiter (in-flight and queued requests, queue timeouts)
+ * - Upstream rate limit quota per host and token (remaining, limit, reset)
  */
 
 import { Registry, Counter, Gauge, Histogram } from 'prom-client';
+import type { CircuitState } from './circuit-breaker.js';
+import type { ConnectionPoolStats } from './outbound-agents.js';
+import type { UpstreamQuotaStats } from './upstream-quota.js';
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { closed: 0, open: 1, 'half-open': 2 };
 
 export interface MetricsCollectorConfig {
   enabled: boolean;
@@ -40,6 +51,30 @@ export class MetricsCollector {
   private apiCallDuration: Histogram;
   private apiCallErrors: Counter;
 
+  // Response cache and deduplication metrics
+  private apiCacheRequestsTotal: Counter;
+  private apiDeduplicatedRequestsTotal: Counter;
+
+  // Circuit breaker metrics
+  private circuitBreakerState: Gauge;
+  private circuitBreakerRejectedTotal: Counter;
+
+  // Upstream limiter metrics
+  private upstreamLimiterInFlight: Gauge;
+  private upstreamLimiterQueueDepth: Gauge;
+  private upstreamQueueTimeoutsTotal: Counter;
+
+  // Upstream quota metrics (adaptive rate limit)
+  private upstreamQuotaRemaining: Gauge;
+  private upstreamQuotaLimit: Gauge;
+  private upstreamQuotaReset: Gauge;
+
+  // Upstream connection pool metrics, read from source on scrape
+  private upstreamConnections: Gauge;
+  private upstreamQueuedRequests: Gauge;
+  private connectionPoolSource?: () => ConnectionPoolStats[];
+  private upstreamQuotaSource?: () => UpstreamQuotaStats[];
+
   constructor(config: MetricsCollectorConfig) {
     this.enabled = config.enabled;
     this.registry = new Registry();
@@ -126,6 +161,135 @@ export class MetricsCollector {
       labelNames: ['operation', 'error_type'],
       registers: [this.registry],
     });
+
+    // Response cache and deduplication metrics
+    this.apiCacheRequestsTotal = new Counter({
+      name: `${prefix}api_cache_requests_total`,
+      help: 'Total number of cacheable API requests by cache result',
+      labelNames: ['operation', 'result'],
+      registers: [this.registry],
+    });
+
+    this.apiDeduplicatedRequestsTotal = new Counter({
+      name: `${prefix}api_deduplicated_requests_total`,
+      help: 'Total number of API requests served by an identical in-flight request',
+      labelNames: ['operation'],
+      registers: [this.registry],
+    });
+
+    // Circuit breaker metrics
+    this.circuitBreakerState = new Gauge({
+      name: `${prefix}circuit_breaker_state`,
+      help: 'Circuit breaker state per operation or host (0 = closed, 1 = open, 2 = half-open)',
+      labelNames: ['breaker'],
+      registers: [this.registry],
+    });
+
+    this.circuitBreakerRejectedTotal = new Counter({
+      name: `${prefix}circuit_breaker_rejected_requests_total`,
+      help: 'Total number of API requests rejected by an open circuit breaker',
+      labelNames: ['breaker'],
+      registers: [this.registry],
+    });
+
+    // Upstream limiter metrics
+    this.upstreamLimiterInFlight = new Gauge({
+      name: `${prefix}upstream_limiter_in_flight_requests`,
+      help: 'API requests in flight per upstream host under upstream_limit',
+      labelNames: ['upstream'],
+      registers: [this.registry],
+    });
+
+    this.upstreamLimiterQueueDepth = new Gauge({
+      name: `${prefix}upstream_limiter_queue_depth`,
+      help: 'API requests waiting for an upstream_limit slot per upstream host',
+      labelNames: ['upstream'],
+      registers: [this.registry],
+    });
+
+    this.upstreamQueueTimeoutsTotal = new Counter({
+      name: `${prefix}upstream_limiter_queue_timeouts_total`,
+      help: 'Total number of API requests that timed out waiting for an upstream_limit slot',
+      labelNames: ['upstream'],
+      registers: [this.registry],
+    });
+
+    // Upstream quota metrics
+    // Why collect callbacks: Series of tokens whose quota has reset disappear
+    // instead of piling up as tokens rotate
+    const quotaStats = () => this.upstreamQuotaSource?.() ?? [];
+
+    this.upstreamQuotaRemaining = new Gauge({
+      name: `${prefix}upstream_quota_remaining`,
+      help: 'Remaining upstream API rate limit quota per host and token (hashed identity)',
+      labelNames: ['upstream', 'identity'],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const quota of quotaStats()) {
+          this.set({ upstream: quota.upstream, identity: quota.identity }, quota.remaining);
+        }
+      },
+    });
+
+    this.upstreamQuotaLimit = new Gauge({
+      name: `${prefix}upstream_quota_limit`,
+      help: 'Upstream API rate limit per host and token (hashed identity)',
+      labelNames: ['upstream', 'identity'],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const quota of quotaStats()) {
+          if (quota.limit !== undefined) {
+            this.set({ upstream: quota.upstream, identity: quota.identity }, quota.limit);
+          }
+        }
+      },
+    });
+
+    this.upstreamQuotaReset = new Gauge({
+      name: `${prefix}upstream_quota_reset_seconds`,
+      help: 'Seconds until upstream API rate limit quota resets per host and token (hashed identity)',
+      labelNames: ['upstream', 'identity'],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const quota of quotaStats()) {
+          this.set({ upstream: quota.upstream, identity: quota.identity }, quota.resetInSeconds);
+        }
+      },
+    });
+
+    // Connection pool metrics
+    // Why collect callbacks: Pool counts change with every request; reading them on scrape costs nothing per request
+    const poolStats = () => this.connectionPoolSource?.() ?? [];
+
+    this.upstreamConnections = new Gauge({
+      name: `${prefix}upstream_connections`,
+      help: 'Open upstream connections per origin by state (busy, idle)',
+      labelNames: ['origin', 'state'],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const stats of poolStats()) {
+          this.set({ origin: stats.origin, state: 'busy' }, stats.connected - stats.free);
+          this.set({ origin: stats.origin, state: 'idle' }, stats.free);
+        }
+      },
+    });
+
+    this.upstreamQueuedRequests = new Gauge({
+      name: `${prefix}upstream_queued_requests`,
+      help: 'API requests waiting for a free upstream connection (pool saturated)',
+      labelNames: ['origin'],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const stats of poolStats()) {
+          this.set({ origin: stats.origin }, stats.queued);
+        }
+      },
+    });
   }
 
   /**
@@ -206,6 +370,71 @@ export class MetricsCollector {
     this.apiCallErrors.inc({ operation, error_type: errorType });
   }
 
+  /**
+   * Record response cache lookup
+   *
+   * revalidated: entry was stale, API answered 304 Not Modified
+   */
+  recordCacheResult(operation: string, result: 'hit' | 'miss' | 'revalidated'): void {
+    if (!this.enabled) return;
+    this.apiCacheRequestsTotal.inc({ operation, result });
+  }
+
+  /**
+   * Record request coalesced into identical in-flight request
+   */
+  recordDeduplicatedRequest(operation: string): void {
+    if (!this.enabled) return;
+    this.apiDeduplicatedRequestsTotal.inc({ operation });
+  }
+
+  /**
+   * Record circuit breaker state after request
+   */
+  setCircuitBreakerState(breaker: string, state: CircuitState): void {
+    if (!this.enabled) return;
+    this.circuitBreakerState.set({ breaker }, CIRCUIT_STATE_VALUES[state]);
+  }
+
+  /**
+   * Record request rejected by open circuit breaker
+   */
+  recordCircuitBreakerRejection(breaker: string): void {
+    if (!this.enabled) return;
+    this.circuitBreakerRejectedTotal.inc({ breaker });
+  }
+
+  /**
+   * Record upstream limiter counts after request queued, admitted or finished
+   */
+  setUpstreamLimiterState(upstream: string, state: { inFlight: number; queued: number }): void {
+    if (!this.enabled) return;
+    this.upstreamLimiterInFlight.set({ upstream }, state.inFlight);
+    this.upstreamLimiterQueueDepth.set({ upstream }, state.queued);
+  }
+
+  /**
+   * Record request rejected after waiting too long for upstream limiter slot
+   */
+  recordUpstreamQueueTimeout(upstream: string): void {
+    if (!this.enabled) return;
+    this.upstreamQueueTimeoutsTotal.inc({ upstream });
+  }
+
+  /**
+   * Report upstream quotas of source (not yet reset) on every scrape
+   */
+  observeUpstreamQuotas(source: () => UpstreamQuotaStats[]): void {
+    this.upstreamQuotaSource = source;
+  }
+
+  /**
+   * Report connection pool counts of source on every scrape
+   */
+  observeConnectionPools(source: () => ConnectionPoolStats[]): void {
+    this.connectionPoolSource = source;
+  }
+
   /**
    * Get metrics in Prometheus format
    */
@@ -31,6 +31,7 @@ import type {
 import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import type { OAuthConfig } from './types/profile.js';
 import type { Logger } from './logger.js';
+import type { DispatcherResolver } from './outbound-agents.js';
 
 /**
  * In-memory store for OAuth client registrations
@@ -86,7 +87,11 @@ export class ExternalOAuthProvider implements OAuthServerProvider {
   private authorizationCodes = new Map<string, AuthorizationCodeData>();
   private accessTokens = new Map<string, AccessTokenData>();
 
-  constructor(config: OAuthConfig, logger: Logger) {
+  constructor(
+    config: OAuthConfig,
+    logger: Logger,
+    private dispatcherFor?: DispatcherResolver // Proxy and TLS settings for token endpoint calls
+  ) {
     this.config = config;
     this.logger = logger;
     this._clientsStore = new InMemoryClientsStore();
@@ -330,6 +335,7 @@ export class ExternalOAuthProvider implements OAuthServerProvider {
 
     const response = await fetch(tokenUrl, {
       method: 'POST',
+      dispatcher: this.dispatcherFor?.(tokenUrl),
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
         'Accept': 'application/json',
@@ -383,6 +389,7 @@ export class ExternalOAuthProvider implements OAuthServerProvider {
 
     const response = await fetch(tokenUrl, {
       method: 'POST',
+      dispatcher: this.dispatcherFor?.(tokenUrl),
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
         'Accept': 'application/json',
@@ -477,6 +484,7 @@ export class ExternalOAuthProvider implements OAuthServerProvider {
 
     const response = await fetch(introspectionUrl, {
       method: 'POST',
+      dispatcher: this.dispatcherFor?.(introspectionUrl),
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
         'Accept': 'application/json',
@@ -551,6 +559,7 @@ export class ExternalOAuthProvider implements OAuthServerProvider {
 
     const response = await fetch(revocationUrl, {
       method: 'POST',
+      dispatcher: this.dispatcherFor?.(revocationUrl),
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
       },
@@ -209,3 +209,370 @@ describe('OpenAPIParser - Security Schemes', () => {
   });
 });
 
+describe('OpenAPIParser - Schema $ref Resolution', () => {
+  function createParser(spec: Record<string, unknown>): OpenAPIParser {
+    const parser = new OpenAPIParser();
+    (parser as any).spec = {
+      openapi: '3.0.0',
+      info: { title: 'Test API', version: '1.0' },
+      ...spec,
+    };
+    (parser as any).buildIndex();
+    return parser;
+  }
+
+  function bodyOperation(schema: Record<string, unknown>) {
+    return {
+      '/items': {
+        post: {
+          operationId: 'createItem',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema } },
+          },
+          responses: {},
+        },
+      },
+    };
+  }
+
+  it('should resolve nested component schema refs', () => {
+    const parser = createParser({
+      paths: bodyOperation({ $ref: '#/components/schemas/Item' }),
+      components: {
+        schemas: {
+          Item: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string', description: 'Item name' },
+              owner: { $ref: '#/components/schemas/User' },
+              tags: { type: 'array', items: { $ref: '#/components/schemas/Tag' } },
+            },
+          },
+          User: { type: 'object', properties: { id: { type: 'integer' } } },
+          Tag: { type: 'string', enum: ['a', 'b'] },
+        },
+      },
+    });
+
+    const schema = parser.getOperation('createItem')?.requestBody?.content['application/json'].schema;
+    expect(schema?.refName).toBe('Item');
+    expect(schema?.required).toEqual(['name']);
+    expect(schema?.properties?.name.description).toBe('Item name');
+    expect(schema?.properties?.owner.properties?.id.type).toBe('integer');
+    expect(schema?.properties?.tags.items).toMatchObject({ type: 'string', enum: ['a', 'b'] });
+  });
+
+  it('should stop at circular refs', () => {
+    const parser = createParser({
+      paths: bodyOperation({ $ref: '#/components/schemas/Group' }),
+      components: {
+        schemas: {
+          Group: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              subgroups: { type: 'array', items: { $ref: '#/components/schemas/Group' } },
+            },
+          },
+        },
+      },
+    });
+
+    const schema = parser.getOperation('createItem')?.requestBody?.content['application/json'].schema;
+    expect(schema?.properties?.name.type).toBe('string');
+    expect(schema?.properties?.subgroups.items).toEqual({ type: 'object', refName: 'Group' });
+    expect(() => JSON.stringify(schema)).not.toThrow();
+  });
+
+  it('should merge allOf into single object schema', () => {
+    const parser = createParser({
+      paths: bodyOperation({
+        description: 'Extended item',
+        allOf: [
+          { $ref: '#/components/schemas/Base' },
+          { type: 'object', required: ['title'], properties: { title: { type: 'string' } } },
+        ],
+      }),
+      components: {
+        schemas: {
+          Base: { type: 'object', required: ['id'], properties: { id: { type: 'integer' } } },
+        },
+      },
+    });
+
+    const schema = parser.getOperation('createItem')?.requestBody?.content['application/json'].schema;
+    expect(schema?.type).toBe('object');
+    expect(schema?.description).toBe('Extended item');
+    expect(Object.keys(schema?.properties || {})).toEqual(expect.arrayContaining(['id', 'title']));
+    expect(schema?.required).toEqual(expect.arrayContaining(['id', 'title']));
+  });
+
+  it('should keep oneOf variants and discriminator', () => {
+    const parser = createParser({
+      paths: bodyOperation({
+        oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }],
+        discriminator: { propertyName: 'kind' },
+      }),
+      components: {
+        schemas: {
+          Cat: { type: 'object', properties: { kind: { type: 'string' } } },
+          Dog: { type: 'object', properties: { kind: { type: 'string' } } },
+        },
+      },
+    });
+
+    const schema = parser.getOperation('createItem')?.requestBody?.content['application/json'].schema;
+    expect(schema?.oneOf?.map(v => v.refName)).toEqual(['Cat', 'Dog']);
+    expect(schema?.discriminator).toEqual({ propertyName: 'kind', mapping: undefined });
+  });
+
+  it('should treat schemas with properties but no type as objects', async () => {
+    const parser = new OpenAPIParser();
+    await parser.load(path.join(process.cwd(), 'profiles/gitlab/openapi.yaml'));
+
+    const operation = parser.getOperation('postApiV4ProjectsIdBadges');
+    const schema = operation?.requestBody?.content['application/json']?.schema;
+    expect(schema?.type).toBe('object');
+    expect(schema?.properties?.link_url.type).toBe('string');
+    expect(schema?.required).toEqual(expect.arrayContaining(['link_url', 'image_url']));
+  });
+
+  it('should merge path-level parameters with operation override', () => {
+    const parser = createParser({
+      paths: {
+        '/items/{id}': {
+          parameters: [
+            { $ref: '#/components/parameters/ItemId' },
+            { name: 'verbose', in: 'query', schema: { type: 'boolean' } },
+          ],
+          get: {
+            operationId: 'getItem',
+            parameters: [{ name: 'verbose', in: 'query', required: true, schema: { type: 'string' } }],
+            responses: {},
+          },
+        },
+      },
+      components: {
+        parameters: {
+          ItemId: { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+        },
+      },
+    });
+
+    const parameters = parser.getOperation('getItem')?.parameters;
+    expect(parameters?.map(p => `${p.in}:${p.name}`)).toEqual(['path:id', 'query:verbose']);
+    expect(parameters?.[1]).toMatchObject({ required: true, schema: { type: 'string' } });
+  });
+
+  it('should resolve request body refs to components.requestBodies', () => {
+    const parser = createParser({
+      paths: {
+        '/items': {
+          post: {
+            operationId: 'createItem',
+            requestBody: { $ref: '#/components/requestBodies/ItemBody' },
+            responses: {},
+          },
+        },
+      },
+      components: {
+        requestBodies: {
+          ItemBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } },
+          },
+        },
+        schemas: {
+          Item: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
+        },
+      },
+    });
+
+    const requestBody = parser.getOperation('createItem')?.requestBody;
+    expect(requestBody?.required).toBe(true);
+    expect(requestBody?.content['application/json'].schema).toMatchObject({
+      type: 'object',
+      required: ['name'],
+      refName: 'Item',
+    });
+  });
+
+  it('should take operation servers over path servers', () => {
+    const parser = createParser({
+      servers: [{ url: 'https://{env}.example.com', variables: { env: { default: 'api' } } }],
+      paths: {
+        '/files': {
+          servers: [{ url: 'https://files.example.com' }],
+          get: { operationId: 'listFiles', responses: {} },
+          post: {
+            operationId: 'uploadFile',
+            servers: [{ url: 'https://uploads.example.com' }],
+            responses: {},
+          },
+        },
+        '/items': { get: { operationId: 'listItems', responses: {} } },
+      },
+    });
+
+    expect(parser.getBaseUrl()).toBe('https://api.example.com');
+    expect(parser.getOperation('listFiles')?.servers).toEqual([{ url: 'https://files.example.com' }]);
+    expect(parser.getOperation('uploadFile')?.servers).toEqual([{ url: 'https://uploads.example.com' }]);
+    expect(parser.getOperation('listItems')?.servers).toBeUndefined();
+  });
+
+  it('should extract success responses and resolve response refs', () => {
+    const parser = createParser({
+      paths: {
+        '/items/{id}': {
+          get: {
+            operationId: 'getItem',
+            responses: {
+              200: { $ref: '#/components/responses/ItemResponse' },
+              404: { description: 'Not found', content: { 'application/json': { schema: { type: 'object' } } } },
+            },
+          },
+          delete: {
+            operationId: 'deleteItem',
+            responses: { 204: { description: 'Deleted' } },
+          },
+        },
+      },
+      components: {
+        responses: {
+          ItemResponse: {
+            description: 'Item',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } },
+          },
+        },
+        schemas: {
+          Item: { type: 'object', properties: { id: { type: 'integer' } } },
+        },
+      },
+    });
+
+    const responses = parser.getOperation('getItem')?.responses;
+    expect(Object.keys(responses || {})).toEqual(['200']);
+    expect(responses?.['200'].content['application/json'].schema).toMatchObject({
+      type: 'object',
+      refName: 'Item',
+    });
+    expect(parser.getOperation('deleteItem')?.responses).toEqual({
+      204: { description: 'Deleted', content: {} },
+    });
+  });
+});
+
+describe('OpenAPIParser - OpenAPI 3.1', () => {
+  function createParser(spec: Record<string, unknown>): OpenAPIParser {
+    const parser = new OpenAPIParser();
+    (parser as any).spec = {
+      info: { title: 'Test API', version: '1.0' },
+      paths: {},
+      ...spec,
+    };
+    (parser as any).buildIndex();
+    return parser;
+  }
+
+  function bodySchema(parser: OpenAPIParser) {
+    return parser.getOperation('createItem')?.requestBody?.content['application/json'].schema;
+  }
+
+  function bodyOperation(schema: Record<string, unknown>) {
+    return {
+      '/items': {
+        post: {
+          operationId: 'createItem',
+          requestBody: { content: { 'application/json': { schema } } },
+          responses: {},
+        },
+      },
+    };
+  }
+
+  it('should detect spec version', () => {
+    expect(createParser({ openapi: '3.0.3' }).getSpecVersion()).toBe('3.0');
+    expect(createParser({ openapi: '3.1.0' }).getSpecVersion()).toBe('3.1');
+  });
+
+  it('should reject unsupported spec versions', () => {
+    expect(() => createParser({ openapi: '4.0.0' })).toThrow('Unsupported OpenAPI version');
+    expect(() => createParser({})).toThrow('Unsupported OpenAPI version');
+  });
+
+  it('should map type arrays to primary type and nullability', () => {
+    const parser = createParser({
+      openapi: '3.1.0',
+      paths: bodyOperation({
+        type: 'object',
+        properties: {
+          name: { type: ['string', 'null'] },
+          id: { type: ['integer', 'string'] },
+          kind: { const: 'item', examples: ['item'] },
+          point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }] },
+        },
+      }),
+    });
+
+    const schema = bodySchema(parser);
+    expect(schema?.properties?.name).toMatchObject({ type: 'string', nullable: true });
+    expect(schema?.properties?.id).toMatchObject({ type: 'integer', types: ['integer', 'string'] });
+    expect(schema?.properties?.kind).toMatchObject({ const: 'item', examples: ['item'] });
+    expect(schema?.properties?.point.prefixItems).toHaveLength(2);
+  });
+
+  it('should keep 3.0 nullable flag', () => {
+    const parser = createParser({
+      openapi: '3.0.0',
+      paths: bodyOperation({ type: 'object', properties: { note: { type: 'string', nullable: true } } }),
+    });
+
+    expect(bodySchema(parser)?.properties?.note).toMatchObject({ type: 'string', nullable: true });
+  });
+
+  it('should collapse null variants and resolve $defs refs', () => {
+    const parser = createParser({
+      openapi: '3.1.0',
+      paths: bodyOperation({
+        type: 'object',
+        properties: {
+          owner: {
+            anyOf: [{ $ref: '#/components/schemas/Item/$defs/Owner' }, { type: 'null' }],
+            description: 'Optional owner',
+          },
+        },
+      }),
+      components: {
+        schemas: {
+          Item: {
+            $defs: {
+              Owner: { type: 'object', properties: { id: { type: 'integer' } } },
+            },
+          },
+        },
+      },
+    });
+
+    const owner = bodySchema(parser)?.properties?.owner;
+    expect(owner?.anyOf).toBeUndefined();
+    expect(owner).toMatchObject({ type: 'object', nullable: true, description: 'Optional owner' });
+    expect(owner?.properties?.id.type).toBe('integer');
+  });
+
+  it('should index webhooks separately from operations', () => {
+    const parser = createParser({
+      openapi: '3.1.0',
+      webhooks: {
+        newPet: {
+          post: { operationId: 'onNewPet', responses: {} },
+        },
+      },
+    });
+
+    expect(parser.getOperation('onNewPet')).toBeUndefined();
+    expect(parser.getWebhooks().map(w => w.operationId)).toEqual(['onNewPet']);
+  });
+});
+
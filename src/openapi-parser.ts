@@ -5,29 +5,82 @@
  * Pre-indexing by operationId and path avoids linear search on every tool call.
  */
 
-import fs from 'fs/promises';
-import { parse as parseYaml } from 'yaml';
 import type { OpenAPIV3 } from 'openapi-types';
 import { ConfigurationError } from './errors.js';
-import type { OpenAPIIndex, OperationInfo, ParameterInfo, PathInfo, RequestBodyInfo, SchemaInfo } from './types/openapi.js';
+import { isSwagger2, convertSwagger2 } from './swagger2-converter.js';
+import { SpecBundler } from './spec-bundler.js';
+import { resolveServerUrl } from './server-url.js';
+import type { McpExtensions, OpenAPIIndex, OperationInfo, ParameterInfo, ParserSnapshot, PathInfo, RequestBodyInfo, ResponseInfo, SchemaInfo, ServerInfo, SpecVersion } from './types/openapi.js';
 
 export class OpenAPIParser {
   private spec?: OpenAPIV3.Document;
   private index?: OpenAPIIndex;
+  private schemaCache = new Map<string, SchemaInfo>();
+  private sourceFiles: string[] = [];
 
   async load(specPath: string): Promise<void> {
-    const content = await fs.readFile(specPath, 'utf-8');
-    
-    // Parse YAML or JSON based on extension
-    if (specPath.endsWith('.yaml') || specPath.endsWith('.yml')) {
-      this.spec = parseYaml(content) as OpenAPIV3.Document;
-    } else {
-      this.spec = JSON.parse(content) as OpenAPIV3.Document;
+    // Why bundle: Specs split into multiple files reference each other with relative refs
+    const bundler = new SpecBundler();
+    let document: unknown;
+    try {
+      document = await bundler.bundle(specPath);
+    } finally {
+      this.sourceFiles = bundler.getFiles();
     }
 
+    // Why upconvert: Index and everything downstream work with OpenAPI 3.x only
+    this.spec = isSwagger2(document)
+      ? convertSwagger2(document)
+      : document as OpenAPIV3.Document;
+
     this.buildIndex();
   }
 
+  /**
+   * Export loaded state for on-disk cache
+   */
+  toSnapshot(): ParserSnapshot {
+    if (!this.spec || !this.index) throw new ConfigurationError('OpenAPI spec not loaded. Call load() first.');
+
+    return {
+      spec: this.spec,
+      specVersion: this.index.specVersion,
+      paths: Array.from(this.index.paths.values()),
+      webhooks: this.getWebhooks(),
+      sourceFiles: this.sourceFiles,
+    };
+  }
+
+  /**
+   * Restore state exported by toSnapshot() instead of calling load()
+   *
+   * Why no re-indexing: Skipping YAML parsing and schema resolution is the
+   * whole point - huge specs take seconds to index.
+   */
+  loadSnapshot(snapshot: ParserSnapshot): void {
+    const operations = new Map<string, OperationInfo>();
+    const paths = new Map<string, PathInfo>();
+
+    // Same insertion order as buildIndex(): duplicate operationIds resolve identically
+    for (const pathInfo of snapshot.paths) {
+      paths.set(pathInfo.path, pathInfo);
+      for (const operationInfo of Object.values(pathInfo.operations)) {
+        operations.set(operationInfo.operationId, operationInfo);
+      }
+    }
+
+    this.spec = snapshot.spec;
+    this.sourceFiles = snapshot.sourceFiles;
+    this.schemaCache.clear();
+    this.index = {
+      spec: snapshot.spec,
+      specVersion: snapshot.specVersion,
+      operations,
+      paths,
+      webhooks: new Map(snapshot.webhooks.map(op => [op.operationId, op])),
+    };
+  }
+
   /**
    * Build search index from OpenAPI spec
    * 
@@ -37,10 +90,14 @@ export class OpenAPIParser {
   private buildIndex(): void {
     if (!this.spec) throw new ConfigurationError('OpenAPI spec not loaded. Call loadSpec() first.');
 
+    const specVersion = this.detectSpecVersion(this.spec);
     const operations = new Map<string, OperationInfo>();
     const paths = new Map<string, PathInfo>();
+    const webhooks = new Map<string, OperationInfo>();
+    this.schemaCache.clear();
 
-    for (const [path, pathItem] of Object.entries(this.spec.paths || {})) {
+    for (const [path, rawPathItem] of Object.entries(this.spec.paths || {})) {
+      const pathItem = this.resolvePathItem(rawPathItem);
       if (!pathItem) continue;
 
       const pathOperations: Record<string, OperationInfo> = {};
@@ -49,7 +106,7 @@ export class OpenAPIParser {
         const operation = pathItem[method] as OpenAPIV3.OperationObject | undefined;
         if (!operation) continue;
 
-        const operationInfo = this.extractOperationInfo(path, method, operation);
+        const operationInfo = this.extractOperationInfo(path, method, operation, pathItem);
         
         if (operationInfo.operationId) {
           operations.set(operationInfo.operationId, operationInfo);
@@ -61,74 +118,190 @@ export class OpenAPIParser {
       paths.set(path, { path, operations: pathOperations });
     }
 
+    // Webhooks are requests the API sends to us - indexed for reference, never called
+    const webhookItems = (this.spec as { webhooks?: Record<string, OpenAPIV3.PathItemObject> }).webhooks;
+    if (specVersion === '3.1' && webhookItems) {
+      for (const [name, pathItem] of Object.entries(webhookItems)) {
+        for (const method of ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'] as const) {
+          const operation = pathItem?.[method];
+          if (!operation) continue;
+
+          const operationInfo = this.extractOperationInfo(name, method, operation, pathItem);
+          webhooks.set(operationInfo.operationId, operationInfo);
+        }
+      }
+    }
+
     this.index = {
       spec: this.spec,
+      specVersion,
       operations,
       paths,
+      webhooks,
     };
   }
 
+  /**
+   * Resolve path item $ref (e.g., bundled from "./paths/users.yaml")
+   */
+  private resolvePathItem(
+    pathItem: OpenAPIV3.PathItemObject | OpenAPIV3.ReferenceObject | undefined
+  ): OpenAPIV3.PathItemObject | undefined {
+    if (pathItem && '$ref' in pathItem && typeof pathItem.$ref === 'string') {
+      return this.resolveReference<OpenAPIV3.PathItemObject>(pathItem.$ref) ?? undefined;
+    }
+    return pathItem as OpenAPIV3.PathItemObject | undefined;
+  }
+
+  /**
+   * Detect schema dialect from "openapi" field
+   *
+   * Why fail here: A spec without a 3.x version (e.g., unconverted Swagger
+   * or a random YAML file) would produce an empty or misleading tool list.
+   */
+  private detectSpecVersion(spec: OpenAPIV3.Document): SpecVersion {
+    const version = String(spec.openapi || '');
+    const match = /^3\.(\d+)/.exec(version);
+
+    if (!match) {
+      throw new ConfigurationError(
+        `Unsupported OpenAPI version: '${version || 'missing'}'. Expected OpenAPI 3.x or Swagger 2.0`,
+        { version }
+      );
+    }
+
+    return match[1] === '0' ? '3.0' : '3.1';
+  }
+
   private extractOperationInfo(
     path: string,
     method: string,
-    operation: OpenAPIV3.OperationObject
+    operation: OpenAPIV3.OperationObject,
+    pathItem: OpenAPIV3.PathItemObject = {}
   ): OperationInfo {
+    const operationId = operation.operationId || `${method}_${path}`;
+
     return {
-      operationId: operation.operationId || `${method}_${path}`,
+      operationId,
       method: method.toUpperCase(),
       path,
       summary: operation.summary,
       description: operation.description,
-      parameters: this.extractParameters(operation),
+      parameters: this.extractParameters(operation, pathItem.parameters),
       requestBody: this.extractRequestBody(operation),
+      responses: this.extractResponses(operation),
+      // Operation-level servers override path-level, both override spec servers
+      servers: operation.servers ?? pathItem.servers,
       tags: operation.tags,
+      mcp: this.extractMcpExtensions(operation, operationId),
     };
   }
 
-  private extractParameters(operation: OpenAPIV3.OperationObject): ParameterInfo[] {
-    if (!operation.parameters) return [];
+  /**
+   * Read x-mcp-* vendor extensions
+   *
+   * Why validate types: Extensions are hand-written by spec owners; a string
+   * "true" for x-mcp-ignore should fail loudly rather than be ignored.
+   */
+  private extractMcpExtensions(source: object, location: string): McpExtensions | undefined {
+    const raw = source as Record<string, unknown>;
+    const extensions: McpExtensions = {};
+
+    const expectType = (key: string, valid: boolean, expected: string) => {
+      if (!valid) {
+        throw new ConfigurationError(
+          `Invalid ${key} at ${location}: expected ${expected}`,
+          { location, key, value: raw[key] }
+        );
+      }
+    };
+    const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+    if (raw['x-mcp-ignore'] !== undefined) {
+      expectType('x-mcp-ignore', typeof raw['x-mcp-ignore'] === 'boolean', 'boolean');
+      extensions.ignore = raw['x-mcp-ignore'] as boolean;
+    }
+    if (raw['x-mcp-name'] !== undefined) {
+      expectType('x-mcp-name', typeof raw['x-mcp-name'] === 'string', 'string');
+      extensions.name = raw['x-mcp-name'] as string;
+    }
+    if (raw['x-mcp-description'] !== undefined) {
+      expectType('x-mcp-description', typeof raw['x-mcp-description'] === 'string', 'string');
+      extensions.description = raw['x-mcp-description'] as string;
+    }
+    if (raw['x-mcp-hidden-params'] !== undefined) {
+      expectType('x-mcp-hidden-params', isStringArray(raw['x-mcp-hidden-params']), 'array of strings');
+      extensions.hiddenParams = raw['x-mcp-hidden-params'] as string[];
+    }
+    if (raw['x-mcp-response-fields'] !== undefined) {
+      expectType('x-mcp-response-fields', isStringArray(raw['x-mcp-response-fields']), 'array of strings');
+      extensions.responseFields = raw['x-mcp-response-fields'] as string[];
+    }
 
-    return operation.parameters
-      .map(p => {
-        // Resolve $ref to parameter definition
-        if ('$ref' in p) {
-          return this.resolveParameter(p.$ref);
-        }
-        return p;
-      })
-      .filter((p): p is OpenAPIV3.ParameterObject => p !== null)
-      .map(param => ({
-        name: param.name,
-        in: param.in as 'path' | 'query' | 'header' | 'cookie',
-        required: param.required ?? false,
-        schema: this.extractSchema(param.schema),
-        description: param.description,
-      }));
+    return Object.keys(extensions).length > 0 ? extensions : undefined;
   }
 
   /**
-   * Resolve $ref to parameter definition
-   * 
-   * Why: GitLab spec uses shared parameter definitions (e.g., ProjectIdOrPath).
-   * Need to resolve these refs to get actual parameter details.
+   * Merge path-level and operation-level parameters
+   *
+   * Why: Generated specs declare shared path params (e.g., {id}) once on the
+   * path item. Operation-level parameters override them by name + location.
    */
-  private resolveParameter(ref: string): OpenAPIV3.ParameterObject | null {
-    if (!this.spec) return null;
-    
-    // Extract ref path: #/components/parameters/ProjectIdOrPath => ProjectIdOrPath
-    const refName = ref.split('/').pop();
-    if (!refName) return null;
+  private extractParameters(
+    operation: OpenAPIV3.OperationObject,
+    pathParameters: Array<OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject> = []
+  ): ParameterInfo[] {
+    const merged = new Map<string, OpenAPIV3.ParameterObject>();
+
+    for (const p of [...pathParameters, ...(operation.parameters || [])]) {
+      // Resolve $ref to parameter definition
+      const param = '$ref' in p ? this.resolveReference<OpenAPIV3.ParameterObject>(p.$ref) : p;
+      if (param) {
+        merged.set(`${param.in}:${param.name}`, param);
+      }
+    }
+
+    return [...merged.values()].map(param => ({
+      name: param.name,
+      in: param.in as 'path' | 'query' | 'header' | 'cookie',
+      required: param.required ?? false,
+      schema: this.extractSchema(param.schema),
+      description: param.description,
+      mcp: this.extractMcpExtensions(param, `${operation.operationId}/${param.name}`),
+    }));
+  }
 
-    const param = this.spec.components?.parameters?.[refName];
-    if (!param || '$ref' in param) return null;
+  /**
+   * Resolve $ref to parameter, request body, response or path item definition
+   * 
+   * Why: GitLab spec uses shared parameter definitions (e.g., ProjectIdOrPath),
+   * generated specs share request bodies via components.requestBodies.
+   * Refs may point anywhere in the (bundled) document and may chain through
+   * other refs.
+   */
+  private resolveReference<T extends object>(ref: string): T | null {
+    const visited = new Set<string>();
+    let current: string | undefined = ref;
+
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      const target: T | OpenAPIV3.ReferenceObject | undefined = this.resolvePointer(current);
+      if (!target) return null;
+      if (!('$ref' in target)) return target;
+      current = target.$ref;
+    }
 
-    return param as OpenAPIV3.ParameterObject;
+    return null; // Circular refs
   }
 
   private extractRequestBody(operation: OpenAPIV3.OperationObject): RequestBodyInfo | undefined {
-    if (!operation.requestBody || '$ref' in operation.requestBody) return undefined;
+    if (!operation.requestBody) return undefined;
+
+    const body = '$ref' in operation.requestBody
+      ? this.resolveReference<OpenAPIV3.RequestBodyObject>(operation.requestBody.$ref)
+      : operation.requestBody;
+    if (!body) return undefined;
 
-    const body = operation.requestBody;
     const content: Record<string, { schema: SchemaInfo }> = {};
 
     for (const [mediaType, mediaTypeObj] of Object.entries(body.content || {})) {
@@ -145,30 +318,252 @@ export class OpenAPIParser {
     };
   }
 
-  private extractSchema(schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined): SchemaInfo {
+  /**
+   * Extract success (2xx) responses with their content schemas
+   *
+   * Why success only: Response schemas describe tool output (MCP outputSchema).
+   * Error responses are surfaced as errors, never as structured content.
+   */
+  private extractResponses(operation: OpenAPIV3.OperationObject): Record<string, ResponseInfo> | undefined {
+    const responses: Record<string, ResponseInfo> = {};
+
+    for (const [status, rawResponse] of Object.entries(operation.responses || {})) {
+      if (!/^2(\d\d|XX)$/i.test(status)) continue;
+
+      const response = rawResponse && '$ref' in rawResponse
+        ? this.resolveReference<OpenAPIV3.ResponseObject>(rawResponse.$ref)
+        : rawResponse;
+      if (!response) continue;
+
+      const content: Record<string, { schema: SchemaInfo }> = {};
+      for (const [mediaType, mediaTypeObj] of Object.entries(response.content || {})) {
+        if (mediaTypeObj.schema) {
+          content[mediaType] = { schema: this.extractSchema(mediaTypeObj.schema) };
+        }
+      }
+
+      responses[status] = { description: response.description, content };
+    }
+
+    return Object.keys(responses).length > 0 ? responses : undefined;
+  }
+
+  private extractSchema(
+    schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined,
+    resolving: Set<string> = new Set()
+  ): SchemaInfo {
     if (!schema) return {};
-    if ('$ref' in schema) return { type: 'object' }; // Simplified: don't resolve refs
+    if ('$ref' in schema) {
+      const resolved = this.resolveSchemaRef(schema.$ref, resolving);
+      // OpenAPI 3.1 allows siblings next to $ref (typically description)
+      const sibling = schema as { description?: string };
+      return sibling.description ? { ...resolved, description: sibling.description } : resolved;
+    }
+
+    if (schema.allOf) {
+      const { allOf, ...rest } = schema;
+      const parts = allOf.map(part => this.extractSchema(part, resolving));
+      // Own fields (description, default, ...) take precedence over merged parts
+      return this.mergeSchemas([this.extractSchema(rest, resolving), ...parts]);
+    }
+
+    // 3.1 keywords are not part of OpenAPIV3 types
+    const schema31 = schema as {
+      type?: string | string[];
+      const?: unknown;
+      examples?: unknown[];
+      prefixItems?: OpenAPIV3.SchemaObject[];
+      contentMediaType?: string;
+    };
+    const { types, nullable } = this.normalizeType(schema31.type);
 
     const result: SchemaInfo = {
-      type: schema.type as string | undefined,
+      type: types[0],
+      types: types.length > 1 ? types : undefined,
+      nullable: nullable || schema.nullable || undefined,
       format: schema.format,
+      contentMediaType: schema31.contentMediaType,
+      description: schema.description,
       enum: schema.enum,
       default: schema.default,
+      const: schema31.const,
+      examples: schema31.examples ?? (schema.example !== undefined ? [schema.example] : undefined),
     };
 
-    if (schema.type === 'array' && schema.items && !('$ref' in schema.items)) {
-      result.items = this.extractSchema(schema.items);
+    if ('items' in schema && schema.items) {
+      result.items = this.extractSchema(schema.items, resolving);
+    }
+
+    if (schema31.prefixItems) {
+      result.prefixItems = schema31.prefixItems.map(item => this.extractSchema(item, resolving));
+      result.type = result.type || 'array';
     }
 
-    if (schema.type === 'object' && schema.properties) {
+    if (schema.properties) {
+      result.type = result.type || 'object';
       result.properties = {};
       for (const [key, propSchema] of Object.entries(schema.properties)) {
-        result.properties[key] = this.extractSchema(propSchema);
+        result.properties[key] = this.extractSchema(propSchema, resolving);
       }
       result.required = schema.required;
     }
 
-    return result;
+    if (schema.oneOf) {
+      result.oneOf = schema.oneOf.map(variant => this.extractSchema(variant, resolving));
+    }
+
+    if (schema.anyOf) {
+      result.anyOf = schema.anyOf.map(variant => this.extractSchema(variant, resolving));
+    }
+
+    if (schema.discriminator) {
+      result.discriminator = {
+        propertyName: schema.discriminator.propertyName,
+        mapping: schema.discriminator.mapping,
+      };
+    }
+
+    return this.collapseNullVariants(result);
+  }
+
+  /**
+   * Split "type" into non-null types and nullability
+   *
+   * Example: ["string", "null"] => { types: ["string"], nullable: true }
+   */
+  private normalizeType(type: string | string[] | undefined): { types: string[]; nullable: boolean } {
+    if (!type) return { types: [], nullable: false };
+
+    const all = Array.isArray(type) ? type : [type];
+    const types = all.filter(t => t !== 'null');
+    const nullable = types.length < all.length;
+
+    // Plain { type: 'null' } keeps its type so validator accepts only null
+    return types.length === 0 ? { types: ['null'], nullable } : { types, nullable };
+  }
+
+  /**
+   * Turn null variants of oneOf/anyOf into nullable flag
+   *
+   * Why: 3.1 specs express optional refs as anyOf: [{ $ref }, { type: 'null' }].
+   * Collapsing a single remaining variant keeps properties visible to the
+   * default profile and validator.
+   */
+  private collapseNullVariants(schema: SchemaInfo): SchemaInfo {
+    for (const key of ['oneOf', 'anyOf'] as const) {
+      const variants = schema[key];
+      if (!variants) continue;
+
+      const nonNull = variants.filter(v => v.type !== 'null');
+      if (nonNull.length === variants.length) continue;
+
+      schema.nullable = true;
+      if (nonNull.length === 1 && !schema.discriminator) {
+        delete schema[key];
+        return this.mergeSchemas([schema, nonNull[0]]);
+      }
+      schema[key] = nonNull;
+    }
+
+    return schema;
+  }
+
+  /**
+   * Resolve $ref to component schema
+   *
+   * Why cache: Specs reference the same entity (e.g., API_Entities_Badge) from
+   * many operations. Resolving once keeps startup fast on large specs.
+   *
+   * Why resolution stack: Self-referencing entities (a group with subgroups)
+   * would recurse forever. A ref already being resolved is returned as a stub
+   * carrying only its type and name.
+   */
+  private resolveSchemaRef(ref: string, resolving: Set<string>): SchemaInfo {
+    const cached = this.schemaCache.get(ref);
+    if (cached) return cached;
+
+    const refName = ref.split('/').pop() || ref;
+    const target = this.resolvePointer<OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject>(ref);
+    if (!target) return {}; // Unresolvable ref: skip validation rather than guess
+
+    if (resolving.has(ref)) {
+      const type = '$ref' in target ? undefined : target.type as string | undefined;
+      return { type: type || 'object', refName };
+    }
+
+    resolving.add(ref);
+    const resolved: SchemaInfo = { ...this.extractSchema(target, resolving), refName };
+    resolving.delete(ref);
+
+    this.schemaCache.set(ref, resolved);
+    return resolved;
+  }
+
+  /**
+   * Resolve local JSON pointer (e.g., "#/components/schemas/User") against spec
+   */
+  private resolvePointer<T>(ref: string): T | undefined {
+    if (!this.spec || !ref.startsWith('#/')) return undefined;
+
+    let current: unknown = this.spec;
+    for (const rawSegment of ref.slice(2).split('/')) {
+      // RFC 6901 escaping: ~1 => '/', ~0 => '~'
+      const segment = decodeURIComponent(rawSegment).replace(/~1/g, '/').replace(/~0/g, '~');
+      if (!current || typeof current !== 'object') return undefined;
+      current = (current as Record<string, unknown>)[segment];
+    }
+
+    return current as T | undefined;
+  }
+
+  /**
+   * Merge allOf parts into single schema
+   *
+   * Why: Validator and default profile work with flat object schemas.
+   * Properties and required lists are unioned; for scalar fields the first
+   * defined value wins.
+   */
+  private mergeSchemas(parts: SchemaInfo[]): SchemaInfo {
+    const merged: SchemaInfo = {};
+
+    for (const part of parts) {
+      merged.type ??= part.type;
+      merged.types ??= part.types;
+      merged.nullable ??= part.nullable;
+      merged.format ??= part.format;
+      merged.contentMediaType ??= part.contentMediaType;
+      merged.description ??= part.description;
+      merged.enum ??= part.enum;
+      merged.default ??= part.default;
+      merged.const ??= part.const;
+      merged.examples ??= part.examples;
+      merged.items ??= part.items;
+      merged.prefixItems ??= part.prefixItems;
+      merged.oneOf ??= part.oneOf;
+      merged.anyOf ??= part.anyOf;
+      merged.discriminator ??= part.discriminator;
+
+      if (part.properties) {
+        merged.properties = { ...part.properties, ...merged.properties };
+      }
+
+      if (part.required) {
+        merged.required = [...new Set([...(merged.required || []), ...part.required])];
+      }
+    }
+
+    if (merged.properties && !merged.type) {
+      merged.type = 'object';
+    }
+
+    return merged;
+  }
+
+  /**
+   * Files the spec was loaded from (root document and external $ref targets)
+   */
+  getSourceFiles(): string[] {
+    return this.sourceFiles;
   }
 
   getOperation(operationId: string): OperationInfo | undefined {
@@ -179,15 +574,30 @@ export class OpenAPIParser {
     return this.index?.paths.get(path);
   }
 
+  /**
+   * Base URL from first spec server (variables filled with spec defaults)
+   */
   getBaseUrl(): string {
-    const servers = this.spec?.servers;
-    return servers?.[0]?.url || '';
+    const server = this.getServers()[0];
+    return server ? resolveServerUrl(server) : '';
+  }
+
+  getServers(): ServerInfo[] {
+    return this.spec?.servers || [];
   }
 
   getAllOperations(): OperationInfo[] {
     return Array.from(this.index?.operations.values() || []);
   }
 
+  getSpecVersion(): SpecVersion | undefined {
+    return this.index?.specVersion;
+  }
+
+  getWebhooks(): OperationInfo[] {
+    return Array.from(this.index?.webhooks.values() || []);
+  }
+
   /**
    * Get first security scheme from OpenAPI spec
    * 
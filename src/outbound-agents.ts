@@ -0,0 +1,229 @@
+/**
+ * Connection agents for outbound requests: pooling, proxy, extra CAs, mTLS
+ *
+ * Why: Global fetch connects directly and trusts only Node's CAs. Upstream
+ * APIs behind a corporate proxy or requiring client certificates need an
+ * undici dispatcher per target. Tool calls, token validation and OAuth token
+ * exchanges all pick theirs here, so the same rules apply everywhere.
+ *
+ * Why one owner for all sessions: Agents keep a connection pool per origin.
+ * Sharing them lets every session client reuse keep-alive connections
+ * instead of opening sockets (and TLS handshakes) of its own.
+ *
+ * Profile settings win; environment variables fill in the rest:
+ * - HTTPS_PROXY / HTTP_PROXY (by target protocol), NO_PROXY
+ * - API_CA_FILE, API_CLIENT_CERT_FILE, API_CLIENT_KEY_FILE, API_CLIENT_KEY_PASSPHRASE
+ */
+
+import fs from 'fs';
+import tls from 'tls';
+import { Agent, Pool, ProxyAgent, type Dispatcher } from 'undici';
+import { ConfigurationError } from './errors.js';
+import type { ConnectionPoolConfig, ProxyConfig, TlsConfig, TlsClientConfig } from './types/profile.js';
+
+export type DispatcherResolver = (url: string) => Dispatcher | undefined;
+
+export interface ConnectionPoolStats {
+  origin: string;
+  connected: number; // Open sockets
+  free: number; // Idle keep-alive sockets
+  queued: number; // Requests waiting for a socket (pool saturated)
+}
+
+interface TlsOptions {
+  ca?: string[];
+  cert?: string;
+  key?: string;
+  passphrase?: string;
+}
+
+const DEFAULT_PORTS: Record<string, string> = { 'http:': '80', 'https:': '443' };
+
+export class OutboundAgents {
+  private proxyUrl?: string;
+  private noProxy: string[];
+  private tlsOptions: TlsOptions;
+  private tlsOverrides: Array<[prefix: string, options: TlsOptions]>;
+  private poolOptions: Pool.Options;
+  private dispatchers = new Map<string, Dispatcher>();
+  private pools: Array<[origin: string, pool: WeakRef<Pool>]> = [];
+
+  constructor(
+    config: { proxy?: ProxyConfig; tls?: TlsConfig; connection_pool?: ConnectionPoolConfig } = {},
+    private env: NodeJS.ProcessEnv = process.env
+  ) {
+    const pool = config.connection_pool ?? {};
+    this.poolOptions = {
+      connections: pool.max_connections_per_origin ?? null,
+      keepAliveTimeout: pool.keep_alive_timeout_ms,
+      keepAliveMaxTimeout: pool.keep_alive_max_timeout_ms,
+      pipelining: pool.pipelining,
+      allowH2: pool.http2,
+    };
+
+    this.proxyUrl = config.proxy?.url;
+    this.noProxy = config.proxy?.no_proxy ?? splitList(env.NO_PROXY ?? env.no_proxy);
+
+    const base: TlsClientConfig = {
+      ca_file: config.tls?.ca_file ?? env.API_CA_FILE,
+      cert_file: config.tls?.cert_file ?? env.API_CLIENT_CERT_FILE,
+      key_file: config.tls?.key_file ?? env.API_CLIENT_KEY_FILE,
+      passphrase_from_env: config.tls?.passphrase_from_env ??
+        (env.API_CLIENT_KEY_PASSPHRASE !== undefined ? 'API_CLIENT_KEY_PASSPHRASE' : undefined),
+    };
+    this.tlsOptions = this.loadTls(base);
+
+    // Longest prefix first, so the most specific override wins
+    this.tlsOverrides = Object.entries(config.tls?.overrides ?? {})
+      .sort(([a], [b]) => b.length - a.length)
+      .map(([prefix, override]) => [prefix, this.loadTls({ ...base, ...override })]);
+  }
+
+  /**
+   * Dispatcher for request to url: one per proxy and TLS override, pooling per origin
+   */
+  dispatcherFor(url: string): Dispatcher {
+    const proxy = this.proxyFor(new URL(url));
+    const override = this.tlsOverrides.find(([prefix]) => url.startsWith(prefix));
+    const tlsOptions = override ? override[1] : this.tlsOptions;
+
+    const key = `${proxy ?? ''} ${override?.[0] ?? ''}`;
+    let dispatcher = this.dispatchers.get(key);
+    if (!dispatcher) {
+      const options = { ...this.poolOptions, factory: this.createPool };
+      dispatcher = proxy
+        ? new ProxyAgent({ ...options, uri: proxy, requestTls: tlsOptions, proxyTls: { ca: tlsOptions.ca } })
+        : new Agent({ ...options, connect: tlsOptions });
+      this.dispatchers.set(key, dispatcher);
+    }
+    return dispatcher;
+  }
+
+  /**
+   * Connection and queue counts per origin, summed over proxy/TLS variants
+   */
+  poolStats(): ConnectionPoolStats[] {
+    const byOrigin = new Map<string, ConnectionPoolStats>();
+    this.prunePools();
+    for (const [origin, ref] of this.pools) {
+      const pool = ref.deref()!; // Alive: deref in prunePools keeps it until end of this job
+      const stats = byOrigin.get(origin) ?? { origin, connected: 0, free: 0, queued: 0 };
+      stats.connected += pool.stats.connected;
+      stats.free += pool.stats.free;
+      stats.queued += pool.stats.queued;
+      byOrigin.set(origin, stats);
+    }
+    return [...byOrigin.values()];
+  }
+
+  /**
+   * Close pooled connections (after profile reload); in-flight requests finish first
+   */
+  async close(): Promise<void> {
+    const dispatchers = [...this.dispatchers.values()];
+    this.dispatchers.clear();
+    this.pools = [];
+    await Promise.all(dispatchers.map(dispatcher => dispatcher.close()));
+  }
+
+  // Why own factory: Agent creates a pool per origin but doesn't expose it; stats come from here
+  private createPool = (origin: string | URL, options: object): Dispatcher => {
+    const pool = new Pool(origin, options as Pool.Options);
+    this.prunePools();
+    this.pools.push([new URL(origin).origin, new WeakRef(pool)]);
+    return pool;
+  };
+
+  /**
+   * Drop closed pools from stats
+   *
+   * Why weak references: Agent may drop and recreate an origin's pool after
+   * idle or disconnect; stats must not keep the old one alive or count it.
+   */
+  private prunePools(): void {
+    this.pools = this.pools.filter(([, ref]) => {
+      const pool = ref.deref();
+      return pool !== undefined && !pool.closed && !pool.destroyed;
+    });
+  }
+
+  private proxyFor(target: URL): string | undefined {
+    const proxy = this.proxyUrl ?? (target.protocol === 'https:'
+      ? this.env.HTTPS_PROXY ?? this.env.https_proxy
+      : this.env.HTTP_PROXY ?? this.env.http_proxy);
+    if (!proxy || isNoProxy(target, this.noProxy)) {
+      return undefined;
+    }
+    return proxy;
+  }
+
+  /**
+   * Read PEM files once; missing files fail at profile load, not per request
+   */
+  private loadTls(config: TlsClientConfig): TlsOptions {
+    const options: TlsOptions = {};
+
+    if (config.ca_file) {
+      // Why include root certificates: ca replaces Node's defaults instead of extending them
+      options.ca = [...tls.rootCertificates, readPem(config.ca_file, 'CA bundle')];
+    }
+
+    if (config.cert_file || config.key_file) {
+      if (!config.cert_file || !config.key_file) {
+        throw new ConfigurationError('TLS client certificate requires both cert_file and key_file', {
+          certFile: config.cert_file,
+          keyFile: config.key_file,
+        });
+      }
+      options.cert = readPem(config.cert_file, 'client certificate');
+      options.key = readPem(config.key_file, 'client key');
+    }
+
+    if (config.passphrase_from_env) {
+      const passphrase = this.env[config.passphrase_from_env];
+      if (passphrase === undefined) {
+        throw new ConfigurationError(
+          `TLS key passphrase not found. Expected in environment variable: ${config.passphrase_from_env}`,
+          { envVar: config.passphrase_from_env }
+        );
+      }
+      options.passphrase = passphrase;
+    }
+
+    return options;
+  }
+}
+
+/**
+ * Does NO_PROXY entry list cover target?
+ *
+ * Entries: "*", host or domain ("example.com" also matches subdomains),
+ * ".example.com" / "*.example.com" suffixes, optionally with ":port".
+ */
+export function isNoProxy(target: URL, entries: string[]): boolean {
+  const hostname = target.hostname.toLowerCase();
+  const port = target.port || DEFAULT_PORTS[target.protocol];
+
+  return entries.some(raw => {
+    const entry = raw.trim().toLowerCase();
+    if (entry === '*') return true;
+
+    const [host, entryPort] = entry.split(':');
+    if (entryPort && entryPort !== port) return false;
+
+    const domain = host.replace(/^\*?\./, '');
+    return domain.length > 0 && (hostname === domain || hostname.endsWith(`.${domain}`));
+  });
+}
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(',').map(entry => entry.trim()).filter(Boolean) : [];
+}
+
+function readPem(path: string, what: string): string {
+  try {
+    return fs.readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new ConfigurationError(`Cannot read TLS ${what} from ${path}: ${(error as Error).message}`, { path });
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Tests for declarative auto-pagination
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { paginate, getPaginationConfig, formatContinuation } from './paginator.js';
+import type { HttpClient, RequestOptions, ResponseContext } from './interceptors.js';
+import type { PaginationConfig } from './types/profile.js';
+
+/**
+ * Client serving pages from responder keyed by request params
+ */
+function mockClient(responder: (params: Record<string, string | string[]>) => Partial<ResponseContext>) {
+  const request = vi.fn(async (_method: string, _path: string, options: RequestOptions = {}) => ({
+    status: 200,
+    headers: {},
+    body: undefined,
+    ...responder(options.params || {}),
+  }));
+  return { client: { request } as unknown as HttpClient, request };
+}
+
+describe('paginate', () => {
+  it('should follow Link rel="next" and merge pages', async () => {
+    const { client, request } = mockClient(params => {
+      const page = Number(params.page || 1);
+      return {
+        body: [{ id: page }],
+        headers: page < 3
+          ? { link: `<https://api.example.com/projects?page=${page + 1}&per_page=1&scope[]=a>; rel="next", <https://api.example.com/projects?page=3>; rel="last"` }
+          : {},
+      };
+    });
+
+    const result = await paginate(client, 'GET', '/projects', { params: { scope: ['a'] } }, { type: 'link', page_size: 1 });
+
+    expect(result).toEqual({ body: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+    expect(request.mock.calls.map(call => call[2]!.params)).toEqual([
+      { scope: ['a'], per_page: '1' },
+      { page: '2', per_page: '1', scope: ['a'] },
+      { page: '3', per_page: '1', scope: ['a'] },
+    ]);
+  });
+
+  it('should stop page pagination at total pages header', async () => {
+    const { client, request } = mockClient(params => ({
+      body: [params.page || '1'],
+      headers: { 'x-total-pages': '2' },
+    }));
+
+    const result = await paginate(client, 'GET', '/items', {}, { type: 'page' });
+
+    expect(result.body).toEqual(['1', '2']);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop offset pagination at short page', async () => {
+    const data = ['a', 'b', 'c', 'd', 'e'];
+    const { client } = mockClient(params => {
+      const offset = Number(params.offset || 0);
+      return { body: data.slice(offset, offset + Number(params.limit)) };
+    });
+
+    const result = await paginate(client, 'GET', '/items', {}, { type: 'offset', page_size: 2 });
+
+    expect(result.body).toEqual(data);
+  });
+
+  it('should follow cursor from body and keep wrapper object', async () => {
+    const pages: Record<string, { data: string[]; meta: { next: string | null } }> = {
+      start: { data: ['a', 'b'], meta: { next: 'c1' } },
+      c1: { data: ['c'], meta: { next: null } },
+    };
+    const { client } = mockClient(params => ({ body: pages[(params.after as string) || 'start'] }));
+
+    const result = await paginate(client, 'GET', '/events', {}, {
+      type: 'cursor',
+      items_path: 'data',
+      cursor_param: 'after',
+      next_cursor_path: 'meta.next',
+    });
+
+    expect(result.body).toEqual({ data: ['a', 'b', 'c'], meta: { next: 'c1' } });
+  });
+
+  it('should return continuation when max_pages is reached', async () => {
+    const { client, request } = mockClient(params => ({ body: [Number(params.page || 1)] }));
+
+    const result = await paginate(client, 'GET', '/items', { params: { state: 'open' } }, { type: 'page', max_pages: 2 });
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({
+      body: [1, 2],
+      continuation: { reason: 'max_pages', pages: 2, items: 2, next_params: { state: 'open', page: '3' } },
+    });
+    expect(formatContinuation(result.continuation!))
+      .toBe('Results truncated after 2 pages (max_pages). More results are available: call the tool again with {"state":"open","page":"3"} to continue.');
+  });
+
+  it('should stop once max_items are collected', async () => {
+    const { client } = mockClient(params => ({ body: [1, 2, 3].map(n => n + 3 * (Number(params.page || 1) - 1)) }));
+
+    const result = await paginate(client, 'GET', '/items', {}, { type: 'page', max_items: 5 });
+
+    expect(result.body).toEqual([1, 2, 3, 4, 5]);
+    expect(result.continuation).toEqual({ reason: 'max_items', pages: 2, items: 5, next_params: { page: '2' }, skip_items: 2 });
+    expect(formatContinuation(result.continuation!)).toContain('{"page":"2"} (its first 2 items were already returned)');
+  });
+
+  it('should cap max_items on the last page and resume offset past kept items', async () => {
+    const data = ['a', 'b', 'c', 'd', 'e'];
+    const { client } = mockClient(params => {
+      const offset = Number(params.offset || 0);
+      return { body: data.slice(offset, offset + 3) };
+    });
+
+    const result = await paginate(client, 'GET', '/items', {}, { type: 'offset', page_size: 3, max_items: 4 });
+
+    expect(result.body).toEqual(['a', 'b', 'c', 'd']);
+    expect(result.continuation).toEqual({ reason: 'max_items', pages: 2, items: 4, next_params: { limit: '3', offset: '4' } });
+  });
+
+  it('should keep only pagination and requested params of next link in continuation', async () => {
+    const { client } = mockClient(() => ({
+      body: [1],
+      headers: { link: '<https://api.example.com/items?private_token=secret&state=open&page=2&per_page=1>; rel="next"' },
+    }));
+
+    const result = await paginate(client, 'GET', '/items', { params: { state: 'open' } }, { type: 'link', max_pages: 1 });
+
+    expect(result.continuation!.next_params).toEqual({ state: 'open', page: '2', per_page: '1' });
+    expect(formatContinuation(result.continuation!)).not.toContain('secret');
+  });
+
+  it('should request full next link when its path differs', async () => {
+    const links: Record<string, string> = {
+      '/events': '<https://api.example.com/v1/events/after/c1?per_page=1>; rel="next"',
+      'https://api.example.com/v1/events/after/c1': '<https://api.example.com/v1/events/after/c2?per_page=1>; rel="next"',
+    };
+    const request = vi.fn(async (_method: string, target: string) => ({
+      status: 200,
+      headers: links[target] ? { link: links[target] } : {},
+      body: [target],
+    }));
+
+    const result = await paginate({ request } as unknown as HttpClient, 'GET', '/events', {}, { type: 'link' });
+
+    expect(result.body).toEqual(['/events', 'https://api.example.com/v1/events/after/c1', 'https://api.example.com/v1/events/after/c2']);
+    expect(request.mock.calls.map(call => call[1])).toEqual([
+      '/events',
+      'https://api.example.com/v1/events/after/c1',
+      'https://api.example.com/v1/events/after/c2',
+    ]);
+  });
+
+  it('should return non-list responses as is', async () => {
+    const { client, request } = mockClient(() => ({ body: { id: 1 }, headers: { link: '<https://x/?page=2>; rel="next"' } }));
+
+    const result = await paginate(client, 'GET', '/items/1', {}, { type: 'link' });
+
+    expect(result).toEqual({ body: { id: 1 } });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getPaginationConfig', () => {
+  const config: PaginationConfig = { type: 'link', actions: ['list'] };
+
+  it('should apply only to GET requests of configured actions', () => {
+    expect(getPaginationConfig(config, 'GET', 'list')).toBe(config);
+    expect(getPaginationConfig(config, 'GET', 'get')).toBeUndefined();
+    expect(getPaginationConfig(config, 'POST', 'list')).toBeUndefined();
+    expect(getPaginationConfig({ type: 'link' }, 'GET')).toEqual({ type: 'link' });
+    expect(getPaginationConfig(undefined, 'GET', 'list')).toBeUndefined();
+  });
+});
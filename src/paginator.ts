@@ -0,0 +1,329 @@
+/**
+ * Declarative auto-pagination for list operations
+ *
+ * Why: List tools otherwise return only the first page and the LLM has to
+ * guess page params. Pages are fetched up to max_pages/max_items and merged;
+ * when the cap is hit, a continuation hint tells the LLM how to resume.
+ *
+ * Why re-request same path: Most strategies (and most Link headers) only
+ * change query params of the operation, so requests keep going through
+ * HttpClient with base URL, auth and other interceptors. Absolute next links
+ * with another path (cursor in path, other endpoint) are requested as is.
+ */
+
+import type { HttpClient, RequestOptions, ResponseContext } from './interceptors.js';
+import type { PaginationConfig } from './types/profile.js';
+
+const DEFAULT_MAX_PAGES = 10;
+
+type QueryParams = Record<string, string | string[]>;
+
+export interface PaginationContinuation {
+  reason: 'max_pages' | 'max_items';
+  pages: number; // Pages fetched
+  items: number; // Items returned
+  next_params: QueryParams; // Query params of the first page not fully returned
+  skip_items?: number; // Items of that page already returned (max_items cut within page)
+}
+
+export interface PaginatedResponse {
+  body: unknown;
+  continuation?: PaginationContinuation;
+}
+
+/**
+ * Tool result cut off by max_pages/max_items
+ *
+ * Why wrapper: Body keeps the shape of a single page (and the tool's
+ * outputSchema); the continuation hint goes to a separate content block.
+ */
+export class PaginatedResult {
+  constructor(
+    readonly body: unknown,
+    readonly continuation: PaginationContinuation
+  ) {}
+}
+
+/**
+ * Config applying to request, undefined if it shouldn't be paginated
+ *
+ * Why GET only: Page params must never be sent to mutating endpoints.
+ */
+export function getPaginationConfig(
+  config: PaginationConfig | undefined,
+  method: string,
+  action?: string
+): PaginationConfig | undefined {
+  if (!config || method.toUpperCase() !== 'GET') return undefined;
+  if (config.actions && (!action || !config.actions.includes(action))) return undefined;
+  return config;
+}
+
+/**
+ * Fetch pages and merge items into single body
+ *
+ * Responses without items (not an array / no array at items_path) are
+ * returned as is - e.g., a "get" action of a paginated tool.
+ */
+export async function paginate(
+  client: HttpClient,
+  method: string,
+  path: string,
+  options: RequestOptions,
+  config: PaginationConfig
+): Promise<PaginatedResponse> {
+  const maxPages = config.max_pages ?? DEFAULT_MAX_PAGES;
+  let params = withPageSize({ ...options.params }, config);
+  let target = path;
+  const items: unknown[] = [];
+  let firstBody: unknown;
+  let pages = 0;
+  const truncated = (reason: PaginationContinuation['reason'], resume: { params: QueryParams; skip: number }) => ({
+    body: mergeItems(firstBody, items, config.items_path),
+    continuation: {
+      reason,
+      pages,
+      items: items.length,
+      next_params: continuationParams(resume.params, options.params, config),
+      ...(resume.skip > 0 && { skip_items: resume.skip }),
+    },
+  });
+
+  for (;;) {
+    const response = await client.request(method, target, { ...options, params });
+    const pageItems = getItems(response.body, config.items_path);
+    if (!pageItems) {
+      if (pages === 0) return { body: response.body };
+      break; // Later page without items - keep what we have
+    }
+
+    pages++;
+    firstBody ??= response.body;
+    items.push(...pageItems);
+
+    const next = getNextParams(response, pageItems, params, config);
+
+    // Checked before the last-page break: the last page can cross max_items too
+    if (config.max_items !== undefined && items.length >= config.max_items) {
+      const kept = pageItems.length - (items.length - config.max_items);
+      items.length = config.max_items;
+      if (kept < pageItems.length) return truncated('max_items', resumeParams(params, kept, config));
+      if (next) return truncated('max_items', { params: next, skip: 0 });
+      break;
+    }
+
+    if (!next) break;
+    if (pages >= maxPages) return truncated('max_pages', { params: next, skip: 0 });
+
+    params = next;
+    if (config.type === 'link') {
+      target = linkTarget(response.headers['link'], path);
+    }
+  }
+
+  return { body: mergeItems(firstBody, items, config.items_path) };
+}
+
+/**
+ * Text block appended to truncated tool results
+ */
+export function formatContinuation(continuation: PaginationContinuation): string {
+  const limit = continuation.reason === 'max_pages' ? `${continuation.pages} pages` : `${continuation.items} items`;
+  const skip = continuation.skip_items
+    ? ` (its first ${continuation.skip_items} items were already returned)`
+    : '';
+  return `Results truncated after ${limit} (${continuation.reason}). ` +
+    `More results are available: call the tool again with ${JSON.stringify(continuation.next_params)}${skip} to continue.`;
+}
+
+/**
+ * Where to resume when max_items cut a page after kept items
+ *
+ * Offset moves past the kept items; page, cursor and link strategies can
+ * only restart the page, so its kept items are reported as already returned.
+ */
+function resumeParams(params: QueryParams, kept: number, config: PaginationConfig): { params: QueryParams; skip: number } {
+  if (config.type !== 'offset') {
+    return { params, skip: kept };
+  }
+  const offsetParam = config.offset_param || 'offset';
+  const offset = parseInt(String(params[offsetParam] ?? '0'), 10);
+  return { params: { ...params, [offsetParam]: String(offset + kept) }, skip: 0 };
+}
+
+/**
+ * Params shown to the LLM for the next call
+ *
+ * Why filter links: Next links repeat every query param of the request,
+ * including query auth (private_token, access_token) added by the auth
+ * interceptor. Only pagination params and params of the original call are
+ * kept.
+ */
+function continuationParams(
+  params: QueryParams,
+  requested: QueryParams | undefined,
+  config: PaginationConfig
+): QueryParams {
+  if (config.type !== 'link') return params;
+
+  const allowed = new Set([
+    config.page_param || 'page',
+    config.per_page_param || 'per_page',
+    config.cursor_param || 'cursor',
+    config.offset_param || 'offset',
+    config.limit_param || 'limit',
+    ...Object.keys(requested ?? {}),
+  ]);
+  return Object.fromEntries(Object.entries(params).filter(([key]) => allowed.has(key)));
+}
+
+/**
+ * Page size param: per_page for link/page, limit for offset/cursor
+ */
+function withPageSize(params: QueryParams, config: PaginationConfig): QueryParams {
+  if (config.page_size === undefined) return params;
+
+  const sizeParam = config.type === 'link' || config.type === 'page'
+    ? config.per_page_param || 'per_page'
+    : config.limit_param || 'limit';
+  if (params[sizeParam] === undefined) {
+    params[sizeParam] = String(config.page_size);
+  }
+  return params;
+}
+
+/**
+ * Query params of next page, undefined on last page
+ */
+function getNextParams(
+  response: ResponseContext,
+  pageItems: unknown[],
+  params: QueryParams,
+  config: PaginationConfig
+): QueryParams | undefined {
+  switch (config.type) {
+    case 'link': {
+      const next = parseNextLink(response.headers['link']);
+      return next ? linkParams(next) : undefined;
+    }
+
+    case 'page': {
+      const pageParam = config.page_param || 'page';
+      const page = parseInt(String(params[pageParam] ?? '1'), 10);
+      const totalPages = parseInt(response.headers[(config.total_pages_header || 'x-total-pages').toLowerCase()], 10);
+
+      const lastPage = isNaN(totalPages)
+        ? isLastPage(pageItems, params[config.per_page_param || 'per_page'])
+        : page >= totalPages;
+      if (lastPage) return undefined;
+
+      return { ...params, [pageParam]: String(page + 1) };
+    }
+
+    case 'offset': {
+      const offsetParam = config.offset_param || 'offset';
+      if (isLastPage(pageItems, params[config.limit_param || 'limit'])) return undefined;
+
+      const offset = parseInt(String(params[offsetParam] ?? '0'), 10);
+      return { ...params, [offsetParam]: String(offset + pageItems.length) };
+    }
+
+    case 'cursor': {
+      const cursorParam = config.cursor_param || 'cursor';
+      const cursor = config.next_cursor_header
+        ? response.headers[config.next_cursor_header.toLowerCase()]
+        : getByPath(response.body, config.next_cursor_path);
+
+      // Same cursor again would loop forever
+      if (cursor === undefined || cursor === null || cursor === '' || String(cursor) === params[cursorParam]) {
+        return undefined;
+      }
+      return { ...params, [cursorParam]: String(cursor) };
+    }
+  }
+}
+
+/**
+ * Without total count: empty page, or fewer items than requested, is the last
+ */
+function isLastPage(pageItems: unknown[], pageSize: string | string[] | undefined): boolean {
+  const size = parseInt(String(pageSize), 10);
+  return pageItems.length === 0 || (!isNaN(size) && pageItems.length < size);
+}
+
+/**
+ * Extract rel="next" URL from RFC 8288 Link header
+ */
+function parseNextLink(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+
+  for (const match of header.matchAll(/<([^>]*)>([^<]*)/g)) {
+    const rel = /;\s*rel="?([^";]*)"?/i.exec(match[2]);
+    if (rel && rel[1].toLowerCase().split(/\s+/).includes('next')) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Path to request next link at: operation path if the link only changes
+ * query params, else the link's absolute URL (without query, see linkParams)
+ *
+ * Relative links are resolved against the operation path, i.e. only their
+ * query is used.
+ */
+function linkTarget(header: string | undefined, path: string): string {
+  const next = parseNextLink(header);
+  if (!next || !/^https?:\/\//i.test(next)) return path;
+
+  const url = new URL(next);
+  return url.pathname.replace(/\/$/, '').endsWith(path.replace(/\/$/, '')) ? path : url.origin + url.pathname;
+}
+
+/**
+ * Query params of next link
+ *
+ * Why strip "[]": HttpClient re-adds brackets for arrays per array_format.
+ */
+function linkParams(link: string): QueryParams {
+  const searchParams = new URL(link, 'http://localhost').searchParams;
+  const params: QueryParams = {};
+
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    if (key.endsWith('[]')) {
+      params[key.slice(0, -2)] = values;
+    } else {
+      params[key] = values.length === 1 ? values[0] : values;
+    }
+  }
+  return params;
+}
+
+function getItems(body: unknown, itemsPath?: string): unknown[] | undefined {
+  const items = itemsPath ? getByPath(body, itemsPath) : body;
+  return Array.isArray(items) ? items : undefined;
+}
+
+/**
+ * First page body with items replaced by items of all pages
+ */
+function mergeItems(firstBody: unknown, items: unknown[], itemsPath?: string): unknown {
+  if (!itemsPath) return items;
+
+  const [key, ...rest] = itemsPath.split('.');
+  const body = firstBody as Record<string, unknown>;
+  return { ...body, [key]: rest.length > 0 ? mergeItems(body[key], items, rest.join('.')) : items };
+}
+
+function getByPath(value: unknown, dotPath?: string): unknown {
+  if (!dotPath) return undefined;
+
+  let current = value;
+  for (const key of dotPath.split('.')) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
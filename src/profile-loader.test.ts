@@ -232,6 +232,44 @@ describe('ProfileLoader', () => {
     expect(profile.interceptors?.auth?.value_from_env).toBe('API_TOKEN');
   });
 
+  it('should flatten multipart body schema into default profile parameters', async () => {
+    const parser = new (await import('./openapi-parser.js')).OpenAPIParser();
+    (parser as any).spec = {
+      openapi: '3.0.0',
+      info: { title: 'Test API', version: '1.0' },
+      paths: {
+        '/uploads': {
+          post: {
+            operationId: 'uploadFile',
+            requestBody: {
+              required: true,
+              content: {
+                'multipart/form-data': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      file: { type: 'string', format: 'binary', description: 'File to upload' },
+                      title: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+            responses: { '201': { description: 'Created' } },
+          },
+        },
+      },
+    };
+    (parser as any).buildIndex();
+
+    const profile = ProfileLoader.createDefaultProfile('test-api', parser);
+
+    expect(profile.tools[0].parameters).toMatchObject({
+      file: { type: 'string', required: true, description: expect.stringContaining('File to upload (file: text or data URL') },
+      title: { type: 'string', description: 'Property title' },
+    });
+  });
+
   it('should create default profile with bearer auth for bearer security scheme', async () => {
     const parser = new (await import('./openapi-parser.js')).OpenAPIParser();
     
@@ -943,5 +981,166 @@ describe('ProfileLoader', () => {
 
     warnSpy.mockRestore();
   });
-});
 
+  describe('Pagination validation', () => {
+    async function loadProfileWith(pagination: unknown) {
+      const fs = await import('fs/promises');
+      const tmpPath = '/tmp/pagination-profile.json';
+      await fs.writeFile(tmpPath, JSON.stringify({
+        profile_name: 'test',
+        tools: [{
+          name: 'issues',
+          description: 'Issues',
+          operations: { list: 'listIssues', get: 'getIssue' },
+          parameters: { action: { type: 'string', description: 'Action', enum: ['list', 'get'] } },
+          pagination,
+        }],
+      }));
+      return new ProfileLoader().load(tmpPath);
+    }
+
+    it('should accept pagination for known actions', async () => {
+      const profile = await loadProfileWith({ type: 'link', actions: ['list'] });
+      expect(profile.tools[0].pagination).toEqual({ type: 'link', actions: ['list'] });
+    });
+
+    it('should reject unknown pagination actions', async () => {
+      await expect(loadProfileWith({ type: 'page', actions: ['lst'] }))
+        .rejects.toThrow("references unknown action 'lst'");
+    });
+
+    it('should reject cursor pagination without cursor source', async () => {
+      await expect(loadProfileWith({ type: 'cursor' }))
+        .rejects.toThrow("neither 'next_cursor_path' nor 'next_cursor_header'");
+    });
+  });
+
+  describe('x-mcp-* extensions', () => {
+    async function createParser(paths: Record<string, unknown>) {
+      const parser = new (await import('./openapi-parser.js')).OpenAPIParser();
+      (parser as any).spec = {
+        openapi: '3.0.0',
+        info: { title: 'Test API', version: '1.0' },
+        paths,
+      };
+      (parser as any).buildIndex();
+      return parser;
+    }
+
+    it('should curate default profile from operation extensions', async () => {
+      const parser = await createParser({
+        '/items': {
+          get: {
+            operationId: 'listItems',
+            summary: 'List items',
+            'x-mcp-name': 'list_items',
+            'x-mcp-description': 'List items visible to current user',
+            'x-mcp-hidden-params': ['trace'],
+            'x-mcp-response-fields': ['id', 'name'],
+            parameters: [
+              { name: 'trace', in: 'query', schema: { type: 'boolean' } },
+              { name: 'page', in: 'query', schema: { type: 'integer' }, 'x-mcp-description': 'Page (1-based)' },
+              { name: 'debug', in: 'query', schema: { type: 'boolean' }, 'x-mcp-ignore': true },
+            ],
+            responses: {},
+          },
+          delete: {
+            operationId: 'deleteAllItems',
+            'x-mcp-ignore': true,
+            responses: {},
+          },
+        },
+      });
+
+      const profile = ProfileLoader.createDefaultProfile('test-api', parser);
+
+      expect(profile.tools).toHaveLength(1);
+      expect(profile.tools[0]).toMatchObject({
+        name: 'list_items',
+        description: 'List items visible to current user',
+        operations: { execute: 'listItems' },
+        response_fields: { execute: ['id', 'name'] },
+      });
+      expect(Object.keys(profile.tools[0].parameters)).toEqual(['page']);
+      expect(profile.tools[0].parameters.page.description).toBe('Page (1-based)');
+    });
+
+    it('should reject duplicate tool names from x-mcp-name', async () => {
+      const parser = await createParser({
+        '/items': {
+          get: { operationId: 'listItems', 'x-mcp-name': 'items', responses: {} },
+          post: { operationId: 'createItem', 'x-mcp-name': 'items', responses: {} },
+        },
+      });
+
+      expect(() => ProfileLoader.createDefaultProfile('test-api', parser))
+        .toThrow("Duplicate tool name 'items' for operations listItems and createItem");
+    });
+
+    it('should reject x-mcp-name colliding with generated name', async () => {
+      const parser = await createParser({
+        '/items': {
+          get: { operationId: 'listItems', responses: {} },
+          post: { operationId: 'createItem', 'x-mcp-name': 'listItems', responses: {} },
+        },
+      });
+
+      expect(() => ProfileLoader.createDefaultProfile('test-api', parser))
+        .toThrow("Duplicate tool name 'listItems'");
+    });
+
+    it('should reject hidden path parameters', async () => {
+      const parser = await createParser({
+        '/items/{id}': {
+          get: {
+            operationId: 'getItem',
+            'x-mcp-hidden-params': ['id'],
+            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: {},
+          },
+        },
+      });
+
+      expect(() => ProfileLoader.createDefaultProfile('test-api', parser))
+        .toThrow("Path parameter 'id' of getItem cannot be hidden");
+    });
+
+    it('should surface extensions in OperationInfo', async () => {
+      const parser = await createParser({
+        '/items': {
+          get: { operationId: 'listItems', 'x-mcp-ignore': true, responses: {} },
+        },
+      });
+
+      expect(parser.getOperation('listItems')?.mcp).toEqual({ ignore: true });
+    });
+
+    it('should reject extensions with wrong type', async () => {
+      await expect(createParser({
+        '/items': {
+          get: { operationId: 'listItems', 'x-mcp-ignore': 'true', responses: {} },
+        },
+      })).rejects.toThrow('Invalid x-mcp-ignore at listItems: expected boolean');
+    });
+
+    it('should include header and cookie parameters except reserved headers', async () => {
+      const parser = await createParser({
+        '/items': {
+          get: {
+            operationId: 'listItems',
+            parameters: [
+              { name: 'X-Api-Version', in: 'header', schema: { type: 'string' } },
+              { name: 'Accept', in: 'header', schema: { type: 'string' } },
+              { name: 'session_id', in: 'cookie', schema: { type: 'string' } },
+            ],
+            responses: {},
+          },
+        },
+      });
+
+      const profile = ProfileLoader.createDefaultProfile('test-api', parser);
+
+      expect(Object.keys(profile.tools[0].parameters)).toEqual(['X-Api-Version', 'session_id']);
+    });
+  });
+});
@@ -14,12 +14,14 @@
  */
 
 import fs from 'fs/promises';
-import type { Profile } from './types/profile.js';
+import type { Profile, PaginationConfig } from './types/profile.js';
 import { ValidationError, ConfigurationError } from './errors.js';
 import { profileSchema, authInterceptorSchema } from './generated-schemas.js';
 import type { OpenAPIParser } from './openapi-parser.js';
 import type { OperationInfo, SchemaInfo } from './types/openapi.js';
 import { shortenToolName, NamingStrategy, levenshteinDistance, type OperationForNaming, type ShortenResult } from './naming.js';
+import { getRequestBodySchema, isBinarySchema } from './request-body.js';
+import { isHeaderParam } from './header-params.js';
 
 // Schemas are now auto-generated from TypeScript types!
 // See scripts/generate-schemas.js for details.
@@ -159,6 +161,41 @@ export class ProfileLoader {
       if (tool.composite && tool.steps) {
         this.validateCompositeStepsDAG(tool.name, tool.steps);
       }
+
+      // Validate pagination (tool-level and per composite step)
+      if (tool.pagination) {
+        const actions = tool.parameters['action']?.enum || Object.keys(tool.operations || {});
+        this.validatePagination(tool.name, tool.pagination, actions);
+      }
+      for (const step of tool.steps || []) {
+        if (step.pagination) {
+          this.validatePagination(tool.name, step.pagination);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate pagination config
+   *
+   * Why: Unknown actions would silently disable pagination, a cursor config
+   * without cursor source would never fetch a second page.
+   */
+  private validatePagination(toolName: string, pagination: PaginationConfig, actions?: string[]): void {
+    if (pagination.type === 'cursor' && !pagination.next_cursor_path && !pagination.next_cursor_header) {
+      throw new ValidationError(
+        `Pagination of tool '${toolName}' has type 'cursor' but neither 'next_cursor_path' nor 'next_cursor_header'`,
+        { toolName, pagination }
+      );
+    }
+
+    for (const action of pagination.actions || []) {
+      if (actions && !actions.includes(action)) {
+        throw new ValidationError(
+          `Pagination of tool '${toolName}' references unknown action '${action}'. Available: ${actions.join(', ')}`,
+          { toolName, action, availableActions: actions }
+        );
+      }
     }
   }
 
@@ -291,7 +328,8 @@ export class ProfileLoader {
    * 3. Fallback to bearer token from API_TOKEN env var
    */
   static createDefaultProfile(profileName: string, parser: OpenAPIParser): Profile {
-    const operations = parser.getAllOperations();
+    // Spec owners exclude operations with x-mcp-ignore
+    const operations = parser.getAllOperations().filter(op => !op.mcp?.ignore);
     
     // Get configuration for name shortening
     const maxLength = parseInt(process.env.MCP_TOOLNAME_MAX || '45', 10);
@@ -324,6 +362,20 @@ export class ProfileLoader {
       )
     );
 
+    // x-mcp-name bypasses shortening, so nothing else keeps names unique
+    const toolsByName = new Map<string, string>();
+    tools.forEach((tool, i) => {
+      const operationId = operations[i].operationId;
+      const existing = toolsByName.get(tool.name);
+      if (existing) {
+        throw new ConfigurationError(
+          `Duplicate tool name '${tool.name}' for operations ${existing} and ${operationId} (check x-mcp-name)`,
+          { toolName: tool.name, operations: [existing, operationId] }
+        );
+      }
+      toolsByName.set(tool.name, operationId);
+    });
+
     // Generate auth interceptor from OpenAPI security scheme
     const interceptors = this.generateAuthInterceptor(parser);
 
@@ -477,25 +529,46 @@ export class ProfileLoader {
     options?: { minParts?: number; minLength?: number }
   ): import('./types/profile.js').ToolDefinition {
     const parameters: Record<string, import('./types/profile.js').ParameterDefinition> = {};
+    const hiddenParams = new Set(operation.mcp?.hiddenParams || []);
 
-    // Add path parameters
+    // Add path, query, header and cookie parameters
     for (const param of operation.parameters) {
+      if (param.in === 'header' && !isHeaderParam(param)) {
+        continue; // Accept, Content-Type, Authorization are set by the server
+      }
+      if (param.mcp?.ignore) {
+        hiddenParams.add(param.name);
+      }
+
       parameters[param.name] = {
         type: this.mapOpenAPISchemaToParameterType(param.schema),
-        description: param.description || `Parameter ${param.name}`,
+        description: param.mcp?.description || param.description || `Parameter ${param.name}`,
         required: param.required,
       };
     }
 
     // Add request body parameters if present
     if (operation.requestBody?.content) {
-      // For simplicity, assume JSON content and flatten the schema
-      const jsonContent = operation.requestBody.content['application/json'];
-      if (jsonContent?.schema) {
-        this.flattenSchemaToParameters(jsonContent.schema, parameters, operation.requestBody.required);
+      // Same media type the request is sent with (JSON preferred, then multipart/form)
+      const bodySchema = getRequestBodySchema(operation.requestBody);
+      if (bodySchema) {
+        this.flattenSchemaToParameters(bodySchema, parameters, operation.requestBody.required);
       }
     }
 
+    // Hidden parameters (x-mcp-hidden-params, x-mcp-ignore) are not exposed to LLM.
+    // Path parameters are always required, hiding one leaves the tool uncallable
+    const hiddenPathParam = operation.parameters.find(p => p.in === 'path' && hiddenParams.has(p.name));
+    if (hiddenPathParam) {
+      throw new ConfigurationError(
+        `Path parameter '${hiddenPathParam.name}' of ${operation.operationId} cannot be hidden`,
+        { operationId: operation.operationId, parameter: hiddenPathParam.name }
+      );
+    }
+    for (const name of hiddenParams) {
+      delete parameters[name];
+    }
+
     // Warn if parameter inflation exceeds threshold
     const paramCount = Object.keys(parameters).length;
     if (paramCount > 60) {
@@ -513,22 +586,30 @@ export class ProfileLoader {
       tags: operation.tags,
     };
     
-    const nameResult = shortenToolName(
+    // x-mcp-name is chosen by spec owner - used as is, without shortening
+    const name = operation.mcp?.name ?? shortenToolName(
       opForNaming,
       strategy,
       maxLength,
       allOperations.length > 0 ? allOperations : [opForNaming],
       options
-    );
+    ).name;
 
-    return {
-      name: nameResult.name,
-      description: operation.summary || operation.description || `Execute ${operation.method.toUpperCase()} ${operation.path}`,
+    const tool: import('./types/profile.js').ToolDefinition = {
+      name,
+      description: operation.mcp?.description || operation.summary || operation.description ||
+        `Execute ${operation.method.toUpperCase()} ${operation.path}`,
       operations: {
         'execute': operation.operationId,
       },
       parameters,
     };
+
+    if (operation.mcp?.responseFields) {
+      tool.response_fields = { execute: operation.mcp.responseFields };
+    }
+
+    return tool;
   }
 
   /**
@@ -564,9 +645,12 @@ export class ProfileLoader {
     if (schema.type === 'object' && schema.properties) {
       for (const [propName, propSchema] of Object.entries(schema.properties)) {
         const isRequired = schema.required?.includes(propName) || required;
+        const description = propSchema.description || `Property ${propName}`;
         parameters[propName] = {
-          type: this.mapOpenAPISchemaToParameterType(propSchema as SchemaInfo),
-          description: `Property ${propName}`,
+          type: this.mapOpenAPISchemaToParameterType(propSchema),
+          description: isBinarySchema(propSchema)
+            ? `${description} (file: text or data URL, or object with content/path, encoding ('base64'), filename, content_type)`
+            : description,
           required: isRequired,
         };
       }
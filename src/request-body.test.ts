@@ -0,0 +1,136 @@
+/**
+ * Tests for request body media type selection and encoding
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { selectMediaType, getRequestBodySchema, resolveFileParts, encodeRequestBody, FilePart } from './request-body.js';
+import { ValidationError } from './errors.js';
+import type { SchemaInfo } from './types/openapi.js';
+
+describe('request body', () => {
+  const uploadSchema: SchemaInfo = {
+    type: 'object',
+    properties: {
+      file: { type: 'string', format: 'binary' },
+      attachments: { type: 'array', items: { type: 'string', contentMediaType: 'image/png' } },
+      title: { type: 'string' },
+    },
+  };
+
+  describe('selectMediaType', () => {
+    it('should prefer JSON, then multipart, then form', () => {
+      const schema = { schema: {} };
+      expect(selectMediaType({ required: true, content: { 'multipart/form-data': schema, 'application/vnd.api+json': schema } }))
+        .toBe('application/vnd.api+json');
+      expect(selectMediaType({ required: true, content: { 'application/x-www-form-urlencoded': schema, 'multipart/form-data': schema } }))
+        .toBe('multipart/form-data');
+      expect(selectMediaType({ required: true, content: { 'application/x-www-form-urlencoded': schema } }))
+        .toBe('application/x-www-form-urlencoded');
+      expect(selectMediaType({ required: true, content: { 'application/octet-stream': schema } }))
+        .toBe('application/json');
+      expect(selectMediaType(undefined)).toBe('application/json');
+    });
+
+    it('should return schema of selected media type', () => {
+      const formSchema: SchemaInfo = { type: 'object', properties: { code: { type: 'string' } } };
+      expect(getRequestBodySchema({ required: true, content: { 'application/x-www-form-urlencoded': { schema: formSchema } } }))
+        .toBe(formSchema);
+    });
+  });
+
+  describe('resolveFileParts', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'request-body-'));
+      await fs.writeFile(path.join(dir, 'report.csv'), 'a,b\n1,2\n');
+    });
+
+    afterAll(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should decode base64 content and keep other fields', async () => {
+      const body = await resolveFileParts({
+        file: { content: Buffer.from('hello').toString('base64'), encoding: 'base64', filename: 'hello.txt', content_type: 'text/plain' },
+        attachments: [{ content: Buffer.from('png').toString('base64'), encoding: 'base64' }],
+        title: 'Report',
+      }, uploadSchema, { allowLocalFiles: false });
+
+      expect(body.title).toBe('Report');
+      const file = body.file as FilePart;
+      expect(file.data.toString()).toBe('hello');
+      expect(file).toMatchObject({ filename: 'hello.txt', contentType: 'text/plain' });
+      expect(body.attachments).toEqual([
+        expect.objectContaining({ filename: 'attachments', contentType: 'image/png' }),
+      ]);
+    });
+
+    it('should read local paths only when allowed', async () => {
+      const filePath = path.join(dir, 'report.csv');
+
+      const body = await resolveFileParts({ file: { path: filePath } }, uploadSchema, { allowLocalFiles: true });
+      expect((body.file as FilePart).filename).toBe('report.csv');
+      expect((body.file as FilePart).data.toString()).toBe('a,b\n1,2\n');
+
+      await expect(resolveFileParts({ file: { path: filePath } }, uploadSchema, { allowLocalFiles: false }))
+        .rejects.toThrow('local file paths are only supported with stdio transport');
+      await expect(resolveFileParts({ file: { path: path.join(dir, 'missing') } }, uploadSchema, { allowLocalFiles: true }))
+        .rejects.toThrow("Cannot read file for 'file'");
+    });
+
+    it('should send content without declared encoding as UTF-8', async () => {
+      const body = await resolveFileParts({
+        file: 'hello world',
+        attachments: ['test', 'abcd', { content: 'aGVsbG8=', encoding: 'utf8' }],
+      }, uploadSchema, { allowLocalFiles: false });
+
+      expect((body.file as FilePart).data.toString()).toBe('hello world');
+      expect((body.attachments as FilePart[]).map(part => part.data.toString())).toEqual(['test', 'abcd', 'aGVsbG8=']);
+    });
+
+    it('should decode data URLs with their media type', async () => {
+      const body = await resolveFileParts({
+        file: `data:text/csv;base64,${Buffer.from('a,b').toString('base64')}`,
+        attachments: ['data:,plain%20text'],
+      }, uploadSchema, { allowLocalFiles: false });
+
+      expect(body.file).toMatchObject({ contentType: 'text/csv' });
+      expect((body.file as FilePart).data.toString()).toBe('a,b');
+      expect((body.attachments as FilePart[])[0].data.toString()).toBe('plain text');
+    });
+
+    it('should reject invalid file values', async () => {
+      await expect(resolveFileParts({ file: 'data:text/plain;base64,hello world' }, uploadSchema, { allowLocalFiles: false }))
+        .rejects.toThrow('data URL is not valid base64');
+      await expect(resolveFileParts({ file: 'data:text/plain,100%' }, uploadSchema, { allowLocalFiles: false }))
+        .rejects.toThrow(ValidationError);
+      await expect(resolveFileParts({ file: { content: 'hello world', encoding: 'base64' } }, uploadSchema, { allowLocalFiles: false }))
+        .rejects.toThrow('content is not valid base64');
+      await expect(resolveFileParts({ file: { content: 'aGk=', encoding: 'hex' } }, uploadSchema, { allowLocalFiles: false }))
+        .rejects.toThrow("unknown encoding 'hex'");
+      await expect(resolveFileParts({ file: 42 }, uploadSchema, { allowLocalFiles: false }))
+        .rejects.toThrow("Invalid file for 'file'");
+    });
+
+    it('should not expose file contents when serialized', () => {
+      const part = new FilePart(Buffer.from('secret'), 'a.txt', 'text/plain');
+      expect(JSON.stringify({ part })).toBe('{"part":{"filename":"a.txt","contentType":"text/plain","size":6}}');
+    });
+  });
+
+  describe('encodeRequestBody', () => {
+    it('should encode form fields with repeat arrays by default', () => {
+      const encoded = encodeRequestBody({ a: 1, tags: ['x', 'y'], skip: undefined }, 'application/x-www-form-urlencoded');
+      expect(encoded.toString()).toBe('a=1&tags=x&tags=y');
+    });
+
+    it('should fall back to JSON for other media types', () => {
+      expect(encodeRequestBody({ a: 1 }, 'application/json')).toBe('{"a":1}');
+      expect(encodeRequestBody({ a: 1 }, 'text/plain')).toBe('{"a":1}');
+    });
+  });
+});
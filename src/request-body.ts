@@ -0,0 +1,294 @@
+/**
+ * Request body media type selection and encoding
+ *
+ * Why: Upload and form endpoints reject JSON. Encoding follows the media types
+ * the operation declares in requestBody.content; tool arguments stay plain
+ * JSON values, files are passed as text, base64 or (stdio only) local paths.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { InterceptorConfig } from './types/profile.js';
+import type { RequestBodyInfo, SchemaInfo } from './types/openapi.js';
+import { ValidationError } from './errors.js';
+
+export const JSON_MEDIA_TYPE = 'application/json';
+export const FORM_MEDIA_TYPE = 'application/x-www-form-urlencoded';
+export const MULTIPART_MEDIA_TYPE = 'multipart/form-data';
+
+export type ArrayFormat = NonNullable<InterceptorConfig['array_format']>;
+
+const DATA_URL_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * File argument as supplied by client (a bare string is its content)
+ */
+interface FileInput {
+  content?: string; // data: URL, else text (base64 only with encoding: 'base64')
+  encoding?: 'base64' | 'utf8'; // Of content that is not a data: URL (default: utf8)
+  path?: string; // Local file, stdio transport only
+  filename?: string;
+  content_type?: string;
+}
+
+/**
+ * Resolved file for multipart upload
+ */
+export class FilePart {
+  constructor(
+    readonly data: Buffer,
+    readonly filename: string,
+    readonly contentType: string
+  ) {}
+
+  /**
+   * Why: Request bodies end up in debug logs - file contents must not
+   */
+  toJSON(): Record<string, unknown> {
+    return { filename: this.filename, contentType: this.contentType, size: this.data.length };
+  }
+}
+
+export function isJsonMediaType(mediaType: string): boolean {
+  const type = mediaType.split(';')[0].trim().toLowerCase();
+  return type === JSON_MEDIA_TYPE || type.endsWith('+json');
+}
+
+/**
+ * Pick media type for request body
+ *
+ * Why JSON first: Preserves value types; form encodings are used only when
+ * the operation doesn't accept JSON. Unsupported types (e.g., octet-stream
+ * only) fall back to JSON as before.
+ */
+export function selectMediaType(requestBody?: RequestBodyInfo): string {
+  const mediaTypes = Object.keys(requestBody?.content || {});
+
+  return mediaTypes.find(isJsonMediaType)
+    || mediaTypes.find(type => type.toLowerCase().startsWith(MULTIPART_MEDIA_TYPE))
+    || mediaTypes.find(type => type.toLowerCase().startsWith(FORM_MEDIA_TYPE))
+    || JSON_MEDIA_TYPE;
+}
+
+/**
+ * Schema of the media type selectMediaType() picks
+ */
+export function getRequestBodySchema(requestBody?: RequestBodyInfo): SchemaInfo | undefined {
+  return requestBody?.content[selectMediaType(requestBody)]?.schema;
+}
+
+/**
+ * File field: "format: binary" (3.0, converted Swagger "file") or contentMediaType (3.1)
+ */
+export function isBinarySchema(schema: SchemaInfo): boolean {
+  return schema.type === 'string' && (schema.format === 'binary' || !!schema.contentMediaType);
+}
+
+/**
+ * Replace file arguments of top-level binary properties with FilePart
+ *
+ * Why local paths only for stdio: Over HTTP transport the path would be read
+ * from the server's filesystem on behalf of a remote client.
+ */
+export async function resolveFileParts(
+  body: Record<string, unknown>,
+  schema: SchemaInfo | undefined,
+  options: { allowLocalFiles: boolean }
+): Promise<Record<string, unknown>> {
+  const resolved = { ...body };
+
+  for (const [field, value] of Object.entries(body)) {
+    const propSchema = schema?.properties?.[field];
+    if (!propSchema || value === undefined || value === null) continue;
+
+    if (isBinarySchema(propSchema)) {
+      resolved[field] = await toFilePart(value, field, propSchema, options.allowLocalFiles);
+    } else if (propSchema.items && isBinarySchema(propSchema.items) && Array.isArray(value)) {
+      const itemSchema = propSchema.items;
+      resolved[field] = await Promise.all(
+        value.map(item => toFilePart(item, field, itemSchema, options.allowLocalFiles))
+      );
+    }
+  }
+
+  return resolved;
+}
+
+async function toFilePart(
+  value: unknown,
+  field: string,
+  schema: SchemaInfo,
+  allowLocalFiles: boolean
+): Promise<FilePart> {
+  const file: FileInput | undefined = typeof value === 'string'
+    ? { content: value }
+    : value && typeof value === 'object' ? value as FileInput : undefined;
+  const defaultContentType = file?.content_type || schema.contentMediaType || 'application/octet-stream';
+
+  if (file?.path !== undefined) {
+    if (!allowLocalFiles) {
+      throw new ValidationError(
+        `Invalid file for '${field}': local file paths are only supported with stdio transport, send base64 content`,
+        { field }
+      );
+    }
+
+    let data: Buffer;
+    try {
+      data = await fs.readFile(file.path);
+    } catch (error) {
+      throw new ValidationError(
+        `Cannot read file for '${field}': ${(error as Error).message}`,
+        { field, path: file.path }
+      );
+    }
+    return new FilePart(data, file.filename || path.basename(file.path), defaultContentType);
+  }
+
+  if (typeof file?.content === 'string') {
+    const { data, mediaType } = decodeFileContent(file.content, file.encoding, field);
+    return new FilePart(data, file.filename || field, file.content_type || mediaType || defaultContentType);
+  }
+
+  throw new ValidationError(
+    `Invalid file for '${field}': expected string or object with 'content' or 'path'`,
+    { field }
+  );
+}
+
+/**
+ * Bytes of file content: data: URL, base64 when declared, otherwise UTF-8 text
+ *
+ * Why declared only: Words such as "test" are valid base64 too; guessing
+ * would upload garbage instead of the text.
+ */
+function decodeFileContent(
+  content: string,
+  encoding: FileInput['encoding'],
+  field: string
+): { data: Buffer; mediaType?: string } {
+  const dataUrl = DATA_URL_PATTERN.exec(content);
+  if (dataUrl) {
+    const [, mediaType, params, payload] = dataUrl;
+    if (!params.split(';').includes('base64')) {
+      try {
+        return { data: Buffer.from(decodeURIComponent(payload)), mediaType: mediaType || undefined };
+      } catch {
+        throw new ValidationError(`Invalid file for '${field}': data URL is not valid percent-encoding`, { field });
+      }
+    }
+    if (!isStrictBase64(payload)) {
+      throw new ValidationError(`Invalid file for '${field}': data URL is not valid base64`, { field });
+    }
+    return { data: Buffer.from(payload, 'base64'), mediaType: mediaType || undefined };
+  }
+
+  if (encoding === 'base64') {
+    if (!isStrictBase64(content)) {
+      throw new ValidationError(`Invalid file for '${field}': content is not valid base64`, { field });
+    }
+    return { data: Buffer.from(content, 'base64') };
+  }
+  if (encoding !== undefined && encoding !== 'utf8') {
+    throw new ValidationError(
+      `Invalid file for '${field}': unknown encoding '${encoding}', expected 'base64' or 'utf8'`,
+      { field, encoding }
+    );
+  }
+
+  return { data: Buffer.from(content) };
+}
+
+function isStrictBase64(value: string): boolean {
+  const compact = value.replace(/\r?\n/g, '');
+  return compact.length > 0
+    && compact.length % 4 === 0
+    && BASE64_PATTERN.test(compact)
+    && Buffer.from(compact, 'base64').toString('base64') === compact;
+}
+
+/**
+ * Serialize body for fetch according to media type
+ *
+ * Multipart returns FormData - caller must drop Content-Type so fetch can
+ * add the boundary.
+ */
+export function encodeRequestBody(
+  body: unknown,
+  mediaType: string,
+  arrayFormat: ArrayFormat = 'repeat'
+): string | URLSearchParams | FormData {
+  const type = mediaType.toLowerCase();
+
+  if (type.startsWith(FORM_MEDIA_TYPE) && isRecord(body)) {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(body)) {
+      appendField(params, key, value, arrayFormat);
+    }
+    return params;
+  }
+
+  if (type.startsWith(MULTIPART_MEDIA_TYPE) && isRecord(body)) {
+    const form = new FormData();
+    for (const [key, value] of Object.entries(body)) {
+      appendField(form, key, value, arrayFormat);
+    }
+    return form;
+  }
+
+  return JSON.stringify(body);
+}
+
+/**
+ * Append value as form field(s)
+ *
+ * Arrays follow profile's array_format (same as query params), nested
+ * objects use bracket notation (user[name]=...) understood by Rails/PHP APIs.
+ */
+export function appendField(
+  target: URLSearchParams | FormData,
+  key: string,
+  value: unknown,
+  arrayFormat: ArrayFormat
+): void {
+  if (value === undefined || value === null) return;
+
+  if (value instanceof FilePart) {
+    if (target instanceof FormData) {
+      target.append(key, new Blob([value.data], { type: value.contentType }), value.filename);
+    }
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    switch (arrayFormat) {
+      case 'brackets':
+        value.forEach(item => appendField(target, `${key}[]`, item, arrayFormat));
+        break;
+      case 'indices':
+        value.forEach((item, i) => appendField(target, `${key}[${i}]`, item, arrayFormat));
+        break;
+      case 'repeat':
+        value.forEach(item => appendField(target, key, item, arrayFormat));
+        break;
+      case 'comma':
+        target.append(key, value.map(String).join(','));
+        break;
+    }
+    return;
+  }
+
+  if (isRecord(value)) {
+    for (const [name, nested] of Object.entries(value)) {
+      appendField(target, `${key}[${name}]`, nested, arrayFormat);
+    }
+    return;
+  }
+
+  target.append(key, String(value));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof FilePart);
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for response cache store
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ResponseCache } from './response-cache.js';
+import type { ResponseContext } from './interceptors.js';
+
+function response(body: unknown, headers: Record<string, string> = {}): ResponseContext {
+  return { status: 200, headers, body };
+}
+
+describe('ResponseCache', () => {
+  it('should scope keys per token', () => {
+    const url = 'https://api.example.com/projects/1';
+
+    expect(ResponseCache.key('token-a', url)).not.toBe(ResponseCache.key('token-b', url));
+    expect(ResponseCache.key('token-a', url)).toBe(ResponseCache.key('token-a', url));
+    expect(ResponseCache.key('token-a', url)).not.toContain('token-a');
+  });
+
+  it('should scope keys per request headers', () => {
+    const url = 'https://api.example.com/projects/1';
+    const tenant = (id: string): Array<[string, string]> => [['x-tenant-id', id]];
+
+    expect(ResponseCache.key('token', url, tenant('a'))).not.toBe(ResponseCache.key('token', url, tenant('b')));
+    expect(ResponseCache.key('token', url, tenant('a'))).toBe(ResponseCache.key('token', url, tenant('a')));
+    expect(ResponseCache.key('token', url, tenant('a'))).not.toContain('x-tenant-id');
+  });
+
+  it('should evict least recently used entries beyond max_entries', () => {
+    const cache = new ResponseCache({ max_entries: 2 });
+    cache.set('a', 'https://api.example.com/a', response('a'), 60000);
+    cache.set('b', 'https://api.example.com/b', response('b'), 60000);
+
+    cache.get('a');
+    cache.set('c', 'https://api.example.com/c', response('c'), 60000);
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('should bound total body size', () => {
+    const cache = new ResponseCache({ max_bytes: 10 });
+    cache.set('a', 'https://api.example.com/a', response('123456'), 60000);
+    cache.set('b', 'https://api.example.com/b', response('123456'), 60000);
+    cache.set('big', 'https://api.example.com/big', response('12345678901'), 60000);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBeDefined();
+    expect(cache.get('big')).toBeUndefined();
+  });
+
+  it('should keep validators and skip no-store responses', () => {
+    const cache = new ResponseCache();
+    cache.set('a', 'https://api.example.com/a', response({}, { etag: '"v1"', 'last-modified': 'Mon, 19 Oct 2026 10:00:00 GMT' }), 60000);
+    cache.set('b', 'https://api.example.com/b', response({}, { 'cache-control': 'private, no-store' }), 60000);
+
+    expect(cache.get('a')).toMatchObject({ etag: '"v1"', lastModified: 'Mon, 19 Oct 2026 10:00:00 GMT' });
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('should invalidate same path, ancestors and descendants across tokens', () => {
+    const cache = new ResponseCache();
+    const urls = {
+      list: 'https://api.example.com/projects/1/issues?state=opened',
+      issue: 'https://api.example.com/projects/1/issues/5',
+      notes: 'https://api.example.com/projects/1/issues/5/notes',
+      otherIssue: 'https://api.example.com/projects/1/issues/50',
+      user: 'https://api.example.com/user',
+      otherHost: 'https://other.example.com/projects/1/issues/5',
+    };
+    for (const [name, url] of Object.entries(urls)) {
+      cache.set(ResponseCache.key(name === 'notes' ? 'other-token' : 'token', url), url, response(name), 60000);
+    }
+
+    expect(cache.invalidate('https://api.example.com/projects/1/issues/5')).toBe(3);
+
+    expect(cache.size).toBe(3);
+    expect(cache.get(ResponseCache.key('token', urls.otherIssue))).toBeDefined();
+    expect(cache.get(ResponseCache.key('token', urls.user))).toBeDefined();
+    expect(cache.get(ResponseCache.key('token', urls.otherHost))).toBeDefined();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * In-memory store for the cache interceptor
+ *
+ * Why: Within one conversation the same projects and users are fetched over
+ * and over. Serving them from memory saves API quota and latency.
+ *
+ * Why keyed per auth token and request headers: Responses depend on the
+ * caller's permissions and on header params. Sessions with different tokens
+ * or tenants must never see each other's data, even for identical URLs.
+ *
+ * Why LRU over Map: Map keeps insertion order, so re-inserting on access
+ * makes the first key the least recently used one.
+ */
+
+import crypto from 'crypto';
+import type { ResponseContext } from './interceptors.js';
+import type { CacheConfig } from './types/profile.js';
+import { BinaryBody } from './response-content.js';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+export interface CacheEntry {
+  url: string;
+  response: ResponseContext;
+  expiresAt: number; // Fresh until, then revalidated (or refetched without validators)
+  size: number; // Approximate body size in bytes
+  etag?: string;
+  lastModified?: string;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+  private maxEntries: number;
+  private maxBytes: number;
+
+  constructor(config: Pick<CacheConfig, 'max_entries' | 'max_bytes'> = {}) {
+    this.maxEntries = config.max_entries ?? DEFAULT_MAX_ENTRIES;
+    this.maxBytes = config.max_bytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  /**
+   * Cache key for request URL and headers as seen by token holder
+   *
+   * Token and headers are hashed so they don't sit in memory dumps next to
+   * the bodies. Why headers: Header/cookie params and session-templated
+   * headers (tenant, session ID) select different data for identical URLs.
+   */
+  static key(token: string | undefined, url: string, headers: Array<[string, string]> = []): string {
+    const scope = token ? crypto.createHash('sha256').update(token).digest('hex').slice(0, 16) : 'anonymous';
+    if (headers.length === 0) {
+      return `${scope} ${url}`;
+    }
+    const variant = crypto.createHash('sha256').update(JSON.stringify(headers)).digest('hex').slice(0, 16);
+    return `${scope} ${url} ${variant}`;
+  }
+
+  /**
+   * Get entry (fresh or stale) and mark it as recently used
+   */
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Store 200 response, unless the API forbids it or it can't fit the bound
+   */
+  set(key: string, url: string, response: ResponseContext, ttlMs: number): void {
+    this.delete(key);
+
+    if (/\bno-store\b/i.test(response.headers['cache-control'] || '')) return;
+
+    const size = estimateSize(response.body);
+    if (size > this.maxBytes) return;
+
+    this.entries.set(key, {
+      url,
+      response,
+      expiresAt: Date.now() + ttlMs,
+      size,
+      etag: response.headers['etag'],
+      lastModified: response.headers['last-modified'],
+    });
+    this.totalBytes += size;
+    this.evict();
+  }
+
+  /**
+   * Mark entry fresh again after 304 Not Modified
+   */
+  refresh(key: string, ttlMs: number): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.expiresAt = Date.now() + ttlMs;
+    }
+  }
+
+  /**
+   * Drop cached GETs affected by a write to url
+   *
+   * Why ancestors and descendants: PUT /projects/1/issues/5 changes the issue
+   * itself, its sub-resources and the lists containing it (/projects/1/issues).
+   * Why all tokens: The data changed for every user, not just the writer.
+   */
+  invalidate(url: string): number {
+    const target = parseUrl(url);
+    if (!target) return 0;
+
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      const cached = parseUrl(entry.url);
+      if (cached && cached.origin === target.origin && isRelatedPath(cached.path, target.path)) {
+        this.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.totalBytes -= entry.size;
+      this.entries.delete(key);
+    }
+  }
+
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries && this.totalBytes <= this.maxBytes) break;
+      this.delete(key);
+    }
+  }
+}
+
+function estimateSize(body: unknown): number {
+  if (body instanceof BinaryBody) return body.data.length;
+  if (typeof body === 'string') return Buffer.byteLength(body);
+  return Buffer.byteLength(JSON.stringify(body) ?? '');
+}
+
+function parseUrl(url: string): { origin: string; path: string } | undefined {
+  try {
+    const parsed = new URL(url);
+    return { origin: parsed.origin, path: parsed.pathname.replace(/\/+$/, '') };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Same path, or one is a segment-wise prefix of the other
+ */
+function isRelatedPath(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+}
@@ -0,0 +1,93 @@
+/**
+ * Tests for binary response handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BinaryBody, isBinaryContentType, toBinaryContent, readBinaryBody } from './response-content.js';
+
+describe('response content', () => {
+  it('should detect binary content types', () => {
+    expect(isBinaryContentType('image/png')).toBe(true);
+    expect(isBinaryContentType('application/octet-stream')).toBe(true);
+    expect(isBinaryContentType('application/pdf')).toBe(true);
+
+    expect(isBinaryContentType('text/plain; charset=utf-8')).toBe(false);
+    expect(isBinaryContentType('application/problem+json')).toBe(false);
+    expect(isBinaryContentType('application/xml')).toBe(false);
+    expect(isBinaryContentType('image/svg+xml')).toBe(false);
+    expect(isBinaryContentType(null)).toBe(false);
+  });
+
+  it('should convert images to image content and others to resource blobs', () => {
+    const data = Buffer.from('bytes');
+
+    expect(toBinaryContent(new BinaryBody(data, 'image/jpeg', 'https://api.example.com/avatar')))
+      .toEqual({ type: 'image', data: 'Ynl0ZXM=', mimeType: 'image/jpeg' });
+    expect(toBinaryContent(new BinaryBody(data, 'application/zip', 'https://api.example.com/artifacts')))
+      .toEqual({
+        type: 'resource',
+        resource: { uri: 'https://api.example.com/artifacts', mimeType: 'application/zip', blob: 'Ynl0ZXM=' },
+      });
+  });
+
+  it('should serialize metadata only', () => {
+    const body = new BinaryBody(Buffer.alloc(10), 'application/zip', 'https://api.example.com/a.zip');
+    expect(JSON.parse(JSON.stringify(body))).toEqual({
+      mimeType: 'application/zip',
+      size: 10,
+      uri: 'https://api.example.com/a.zip',
+    });
+  });
+
+  describe('readBinaryBody', () => {
+    const uri = 'https://api.example.com/artifacts';
+
+    /**
+     * Response streaming chunks, recording how many were pulled
+     */
+    function streamed(chunks: number[], headers: Record<string, string> = {}) {
+      const state = { pulled: 0, cancelled: false };
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (state.pulled === chunks.length) return controller.close();
+          controller.enqueue(new Uint8Array(chunks[state.pulled++]));
+        },
+        cancel() {
+          state.cancelled = true;
+        },
+      });
+      return { response: new Response(stream, { headers }), state };
+    }
+
+    it('should read body within limit', async () => {
+      const { response } = streamed([3, 2]);
+
+      const body = await readBinaryBody(response, 'application/zip', uri, 5);
+
+      expect(body.data.length).toBe(5);
+      expect(body.size).toBe(5);
+    });
+
+    it('should skip body when Content-Length exceeds limit', async () => {
+      const { response, state } = streamed([3, 3], { 'Content-Length': '6' });
+
+      const body = await readBinaryBody(response, 'application/zip', uri, 5);
+
+      expect(state.pulled).toBeLessThanOrEqual(1);
+      expect(state.cancelled).toBe(true);
+      expect(body.data.length).toBe(0);
+      expect(toBinaryContent(body, 5)).toMatchObject({ type: 'text', text: expect.stringContaining('6 bytes exceeds limit of 5 bytes') });
+    });
+
+    it('should stop reading once streamed bytes pass limit', async () => {
+      const { response, state } = streamed([4, 4, 4, 4]);
+
+      const body = await readBinaryBody(response, 'application/zip', uri, 5);
+
+      expect(state.cancelled).toBe(true);
+      expect(state.pulled).toBeLessThan(4);
+      expect(body.data.length).toBe(0);
+      expect(toBinaryContent(body, 5).type).toBe('text');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Binary API responses as MCP content
+ *
+ * Why: Decoding downloads (artifacts, avatars, PDFs) as text corrupts them.
+ * Binary bodies are kept as bytes and returned as MCP image content or
+ * embedded resource blobs.
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Default MCP_BINARY_MAX_BYTES
+ *
+ * Why limit: Blobs are base64-encoded into a single JSON-RPC message (+33%),
+ * large downloads would exhaust client context and transport buffers.
+ */
+export const DEFAULT_BINARY_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Configured MCP_BINARY_MAX_BYTES
+ */
+export function binaryMaxBytes(env: NodeJS.ProcessEnv = process.env): number {
+  return parseInt(env.MCP_BINARY_MAX_BYTES || String(DEFAULT_BINARY_MAX_BYTES), 10);
+}
+
+const TEXT_MEDIA_TYPES = [
+  'application/xml',
+  'application/javascript',
+  'application/x-www-form-urlencoded',
+  'application/yaml',
+  'application/x-yaml',
+  'application/graphql',
+];
+
+/**
+ * Response body that must not be decoded as text
+ */
+export class BinaryBody {
+  constructor(
+    readonly data: Buffer,
+    readonly mimeType: string,
+    readonly uri: string, // Request URL without auth query params
+    readonly size: number = data.length // Above data.length when reading stopped at size limit
+  ) {}
+
+  /**
+   * Why: Response bodies end up in logs and composite step results
+   */
+  toJSON(): Record<string, unknown> {
+    return { mimeType: this.mimeType, size: this.size, uri: this.uri };
+  }
+}
+
+/**
+ * Read binary response up to maxBytes
+ *
+ * Why stream: Buffering a multi-GB artifact just to find it's over the
+ * limit exhausts memory. Content-Length over the limit skips the body
+ * entirely; otherwise reading stops (and the download is cancelled) once
+ * the limit is passed. Oversized bodies keep no data, only their size.
+ */
+export async function readBinaryBody(
+  response: Response,
+  mimeType: string,
+  uri: string,
+  maxBytes: number = binaryMaxBytes()
+): Promise<BinaryBody> {
+  const contentLength = Number(response.headers.get('content-length'));
+  if (contentLength > maxBytes) {
+    await response.body?.cancel();
+    return new BinaryBody(Buffer.alloc(0), mimeType, uri, contentLength);
+  }
+
+  const reader = response.body?.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const chunk = await reader?.read();
+    if (!chunk || chunk.done) break;
+
+    size += chunk.value.length;
+    if (size > maxBytes) {
+      await reader!.cancel();
+      return new BinaryBody(Buffer.alloc(0), mimeType, uri, size);
+    }
+    chunks.push(chunk.value);
+  }
+
+  return new BinaryBody(Buffer.concat(chunks, size), mimeType, uri);
+}
+
+/**
+ * Whether response with this Content-Type should be read as bytes
+ *
+ * Missing Content-Type stays text (previous behavior, most such APIs send text).
+ */
+export function isBinaryContentType(contentType: string | null | undefined): boolean {
+  if (!contentType) return false;
+
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (type.startsWith('text/') || type.endsWith('+json') || type.endsWith('+xml')) return false;
+  if (type === 'application/json' || TEXT_MEDIA_TYPES.includes(type)) return false;
+
+  return true;
+}
+
+/**
+ * Convert binary body to MCP content block
+ *
+ * Images become "image" content (rendered by clients), everything else an
+ * embedded resource blob. Oversized bodies are replaced by a text notice.
+ */
+export function toBinaryContent(
+  body: BinaryBody,
+  maxBytes: number = DEFAULT_BINARY_MAX_BYTES
+): CallToolResult['content'][number] {
+  if (body.size > maxBytes || body.data.length < body.size) {
+    return {
+      type: 'text',
+      text: `Binary response omitted: ${body.mimeType}, ${body.size} bytes exceeds limit of ${maxBytes} bytes (MCP_BINARY_MAX_BYTES). Source: ${body.uri}`,
+    };
+  }
+
+  const data = body.data.toString('base64');
+
+  if (body.mimeType.startsWith('image/')) {
+    return { type: 'image', data, mimeType: body.mimeType };
+  }
+
+  return {
+    type: 'resource',
+    resource: { uri: body.uri, mimeType: body.mimeType, blob: data },
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Tests for retry decisions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isRetryableRequest, isRetryableError, backoffDelay, retryDelay, parseRetryAfter } from './retry-policy.js';
+import { AuthenticationError, AuthorizationError, NetworkError, RateLimitError, TimeoutError, ValidationError } from './errors.js';
+import type { RetryConfig } from './types/profile.js';
+
+const config: RetryConfig = { max_attempts: 3, retry_on_status: [429, 502, 503] };
+
+describe('isRetryableRequest', () => {
+  it('should retry safe methods only by default', () => {
+    expect(isRetryableRequest(config, 'get', {})).toBe(true);
+    expect(isRetryableRequest(config, 'HEAD', {})).toBe(true);
+    expect(isRetryableRequest(config, 'POST', {})).toBe(false);
+    expect(isRetryableRequest(config, 'PUT', {})).toBe(false);
+  });
+
+  it('should retry any method with Idempotency-Key header', () => {
+    expect(isRetryableRequest(config, 'POST', { 'idempotency-key': 'abc' })).toBe(true);
+  });
+
+  it('should honor configured methods', () => {
+    expect(isRetryableRequest({ ...config, retry_methods: ['put', 'delete'] }, 'PUT', {})).toBe(true);
+    expect(isRetryableRequest({ ...config, retry_methods: ['put', 'delete'] }, 'GET', {})).toBe(false);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should retry configured statuses, timeouts and transport failures', () => {
+    expect(isRetryableError(config, new NetworkError('down', 503))).toBe(true);
+    expect(isRetryableError(config, new RateLimitError('slow down'))).toBe(true);
+    expect(isRetryableError(config, new TimeoutError('slow', 1000))).toBe(true);
+    expect(isRetryableError(config, new TypeError('fetch failed'))).toBe(true);
+  });
+
+  it('should not retry errors another attempt cannot fix', () => {
+    expect(isRetryableError(config, new NetworkError('Resource not found', 404))).toBe(false);
+    expect(isRetryableError(config, new NetworkError('boom', 500))).toBe(false);
+    expect(isRetryableError({ ...config, retry_on_status: [401] }, new AuthenticationError('bad token', { statusCode: 401 }))).toBe(false);
+    expect(isRetryableError(config, new AuthorizationError())).toBe(false);
+    expect(isRetryableError(config, new ValidationError('bad input'))).toBe(false);
+  });
+
+  it('should not retry local rate limit errors', () => {
+    const queueTimeout = new RateLimitError('Upstream api is busy');
+    queueTimeout.details = { local: true };
+
+    expect(isRetryableError(config, queueTimeout)).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('should grow exponentially up to max_delay_ms', () => {
+    const exponential: RetryConfig = { ...config, base_delay_ms: 100, max_delay_ms: 500, jitter: false };
+
+    expect([0, 1, 2, 3].map(attempt => backoffDelay(exponential, attempt))).toEqual([100, 200, 400, 500]);
+  });
+
+  it('should use backoff_ms schedule when configured', () => {
+    const fixed: RetryConfig = { ...config, backoff_ms: [10, 20], jitter: false };
+
+    expect([0, 1, 2].map(attempt => backoffDelay(fixed, attempt))).toEqual([10, 20, 20]);
+  });
+
+  it('should apply jitter between half and full delay', () => {
+    const fixed: RetryConfig = { ...config, backoff_ms: [1000] };
+
+    expect(backoffDelay(fixed, 0, () => 0)).toBe(500);
+    expect(backoffDelay(fixed, 0, () => 1)).toBe(1000);
+  });
+});
+
+describe('retryDelay', () => {
+  const fixed: RetryConfig = { ...config, backoff_ms: [100], jitter: false, max_retry_after_ms: 5000 };
+
+  it('should wait at least as long as the server asks', () => {
+    expect(retryDelay(fixed, 0, 2000)).toBe(2000);
+    expect(retryDelay(fixed, 0, 50)).toBe(100);
+  });
+
+  it('should give up when server asks to wait too long', () => {
+    expect(retryDelay(fixed, 0, 10000)).toBeUndefined();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  it('should parse delta seconds and HTTP dates', () => {
+    expect(parseRetryAfter({ 'retry-after': '3' }, 503, now)).toBe(3000);
+    expect(parseRetryAfter({ 'retry-after': 'Thu, 01 Jan 2026 00:00:10 GMT' }, 503, now)).toBe(10000);
+  });
+
+  it('should fall back to rate limit reset on 429', () => {
+    expect(parseRetryAfter({ 'ratelimit-reset': '5' }, 429, now)).toBe(5000);
+    expect(parseRetryAfter({ 'x-ratelimit-reset': String(now / 1000 + 7) }, 429, now)).toBe(7000);
+    expect(parseRetryAfter({ 'ratelimit-reset': '5' }, 503, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Retry decisions for the retry interceptor
+ *
+ * Why separate: Which requests and errors may be retried, and how long to
+ * wait, are pure functions of config, method, error and headers. Keeping them
+ * out of the interceptor makes them testable without timers.
+ */
+
+import type { RetryConfig } from './types/profile.js';
+import { TIME, HTTP_STATUS } from './constants.js';
+import { AuthenticationError, AuthorizationError, NetworkError, RateLimitError, TimeoutError, isMCPError } from './errors.js';
+
+const DEFAULT_RETRY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_MAX_RETRY_AFTER_MS = 60000;
+
+// Reset values above this are epoch seconds (GitLab), below are delta seconds (IETF draft)
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+/**
+ * May request be sent again without risk of applying it twice?
+ *
+ * Safe methods by default; any method once the caller attached an
+ * Idempotency-Key, because the API then deduplicates on its side.
+ */
+export function isRetryableRequest(config: RetryConfig, method: string, headers: Record<string, string>): boolean {
+  const methods = (config.retry_methods ?? DEFAULT_RETRY_METHODS).map(m => m.toUpperCase());
+  if (methods.includes(method.toUpperCase())) return true;
+  return Object.keys(headers).some(name => name.toLowerCase() === 'idempotency-key');
+}
+
+/**
+ * Can another attempt succeed after this error?
+ *
+ * HTTP errors are retried only for configured statuses; auth, validation and
+ * other client-side errors never fix themselves (not even when their status
+ * is listed). Timeouts and transport failures (fetch TypeError, connection
+ * reset) are retried. Local rate limit errors (details.local, e.g. upstream
+ * limiter queue timeout) are not: the request never reached the API, and a
+ * retry would only queue again behind the same backlog.
+ */
+export function isRetryableError(config: RetryConfig, error: unknown): boolean {
+  if (error instanceof AuthenticationError || error instanceof AuthorizationError) return false;
+  if (isMCPError(error) && error.details?.local === true) return false;
+  const statusCode = errorStatus(error);
+  if (statusCode !== undefined) return config.retry_on_status.includes(statusCode);
+  if (error instanceof TimeoutError || error instanceof NetworkError) return true;
+  return !isMCPError(error);
+}
+
+/**
+ * Delay before retry number attempt + 1 (attempt is 0-based)
+ *
+ * backoff_ms schedule when configured, else exponential from base_delay_ms
+ * capped at max_delay_ms. Jitter (default on) picks a delay between half and
+ * full value, so clients failing together don't retry in lockstep.
+ */
+export function backoffDelay(config: RetryConfig, attempt: number, random: () => number = Math.random): number {
+  const delay = config.backoff_ms && config.backoff_ms.length > 0
+    ? config.backoff_ms[Math.min(attempt, config.backoff_ms.length - 1)]
+    : Math.min(config.max_delay_ms ?? DEFAULT_MAX_DELAY_MS, (config.base_delay_ms ?? DEFAULT_BASE_DELAY_MS) * 2 ** attempt);
+
+  if (config.jitter === false) return delay;
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
+
+/**
+ * Wait for retry: server-requested delay wins over backoff when longer
+ *
+ * Returns undefined when the server asks to wait longer than
+ * max_retry_after_ms - retrying sooner would fail again, so give up.
+ */
+export function retryDelay(config: RetryConfig, attempt: number, retryAfterMs: number | undefined): number | undefined {
+  const backoffMs = backoffDelay(config, attempt);
+  if (retryAfterMs === undefined) return backoffMs;
+  if (retryAfterMs > (config.max_retry_after_ms ?? DEFAULT_MAX_RETRY_AFTER_MS)) return undefined;
+  return Math.max(backoffMs, retryAfterMs);
+}
+
+/**
+ * Server-requested delay from Retry-After or, for 429, rate limit reset headers
+ *
+ * Retry-After is delta seconds or an HTTP date. RateLimit-Reset and
+ * X-RateLimit-Reset are delta or epoch seconds.
+ */
+export function parseRetryAfter(headers: Record<string, string>, status: number, now: number = Date.now()): number | undefined {
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * TIME.MS_PER_SECOND);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  if (status !== HTTP_STATUS.TOO_MANY_REQUESTS) return undefined;
+  return parseRateLimitReset(headers, now);
+}
+
+/**
+ * Time until rate limit quota resets, from RateLimit-Reset or X-RateLimit-Reset
+ */
+export function parseRateLimitReset(headers: Record<string, string>, now: number = Date.now()): number | undefined {
+  const reset = Number(headers['ratelimit-reset'] ?? headers['x-ratelimit-reset']);
+  if (!Number.isFinite(reset) || reset <= 0) return undefined;
+  return reset > EPOCH_SECONDS_THRESHOLD
+    ? Math.max(0, reset * TIME.MS_PER_SECOND - now)
+    : reset * TIME.MS_PER_SECOND;
+}
+
+/**
+ * Server-requested delay carried by error (details.retryAfter, seconds)
+ */
+export function errorRetryAfterMs(error: unknown): number | undefined {
+  if (!isMCPError(error)) return undefined;
+  const retryAfter = error.details?.retryAfter;
+  return typeof retryAfter === 'number' ? retryAfter * TIME.MS_PER_SECOND : undefined;
+}
+
+function errorStatus(error: unknown): number | undefined {
+  if (error instanceof RateLimitError) return HTTP_STATUS.TOO_MANY_REQUESTS;
+  if (!isMCPError(error)) return undefined;
+  const statusCode = error.details?.statusCode;
+  return typeof statusCode === 'number' ? statusCode : undefined;
+}
@@ -4,7 +4,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { SchemaValidator } from './schema-validator.js';
-import type { OperationInfo } from './types/openapi.js';
+import type { OperationInfo, SchemaInfo } from './types/openapi.js';
 
 describe('SchemaValidator', () => {
   const validator = new SchemaValidator();
@@ -269,5 +269,195 @@ describe('SchemaValidator', () => {
     expect(invalidResult.valid).toBe(false);
     expect(invalidResult.errors![0].message).toContain('URI format');
   });
-});
 
+  it('accepts whole numbers for integer type', () => {
+    const operation: OperationInfo = {
+      operationId: 'test',
+      method: 'POST',
+      path: '/test',
+      parameters: [],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                count: { type: 'integer' },
+                ratio: { type: 'number' },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    expect(validator.validateRequestBody(operation, { count: 3, ratio: 2 }).valid).toBe(true);
+
+    const result = validator.validateRequestBody(operation, { count: 1.5 });
+    expect(result.valid).toBe(false);
+    expect(result.errors![0].path).toBe('count');
+  });
+
+  it('validates anyOf variants', () => {
+    const operation: OperationInfo = {
+      operationId: 'test',
+      method: 'POST',
+      path: '/test',
+      parameters: [],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                id: { anyOf: [{ type: 'integer' }, { type: 'string' }] },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    expect(validator.validateRequestBody(operation, { id: 42 }).valid).toBe(true);
+    expect(validator.validateRequestBody(operation, { id: 'group/project' }).valid).toBe(true);
+
+    const result = validator.validateRequestBody(operation, { id: true });
+    expect(result.valid).toBe(false);
+    expect(result.errors![0].message).toContain('does not match any');
+  });
+
+  it('selects oneOf variant by discriminator', () => {
+    const operation: OperationInfo = {
+      operationId: 'test',
+      method: 'POST',
+      path: '/test',
+      parameters: [],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              oneOf: [
+                {
+                  refName: 'Cat',
+                  type: 'object',
+                  properties: { kind: { type: 'string' }, lives: { type: 'integer' } },
+                  required: ['kind', 'lives'],
+                },
+                {
+                  refName: 'Dog',
+                  type: 'object',
+                  properties: { kind: { type: 'string' }, bark: { type: 'boolean' } },
+                  required: ['kind'],
+                },
+              ],
+              discriminator: {
+                propertyName: 'kind',
+                mapping: { cat: '#/components/schemas/Cat', dog: '#/components/schemas/Dog' },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    expect(validator.validateRequestBody(operation, { kind: 'dog', bark: true }).valid).toBe(true);
+
+    const missingLives = validator.validateRequestBody(operation, { kind: 'cat' });
+    expect(missingLives.valid).toBe(false);
+    expect(missingLives.errors![0].path).toBe('lives');
+
+    const unknownKind = validator.validateRequestBody(operation, { kind: 'bird' });
+    expect(unknownKind.valid).toBe(false);
+    expect(unknownKind.errors![0].message).toContain("Unknown discriminator value 'bird'");
+  });
+
+  describe('OpenAPI 3.1 semantics', () => {
+    function operationWith(properties: Record<string, SchemaInfo>): OperationInfo {
+      return {
+        operationId: 'test',
+        method: 'POST',
+        path: '/test',
+        parameters: [],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { type: 'object', properties } } },
+        },
+      };
+    }
+
+    it('accepts null for nullable schemas only', () => {
+      const operation = operationWith({
+        note: { type: 'string', nullable: true },
+        title: { type: 'string' },
+      });
+
+      expect(validator.validateRequestBody(operation, { note: null }).valid).toBe(true);
+
+      const result = validator.validateRequestBody(operation, { title: null });
+      expect(result.valid).toBe(false);
+      expect(result.errors![0].path).toBe('title');
+    });
+
+    it('accepts any of multiple types', () => {
+      const operation = operationWith({ id: { type: 'integer', types: ['integer', 'string'] } });
+
+      expect(validator.validateRequestBody(operation, { id: 7 }).valid).toBe(true);
+      expect(validator.validateRequestBody(operation, { id: 'group/project' }).valid).toBe(true);
+
+      const result = validator.validateRequestBody(operation, { id: false });
+      expect(result.errors![0].message).toBe('Expected integer or string, got boolean');
+    });
+
+    it('validates const', () => {
+      const operation = operationWith({ kind: { const: 'item' } });
+
+      expect(validator.validateRequestBody(operation, { kind: 'item' }).valid).toBe(true);
+      expect(validator.validateRequestBody(operation, { kind: 'other' }).errors![0].message)
+        .toContain('Value must be "item"');
+    });
+
+    it('validates prefixItems positions and remaining items', () => {
+      const operation = operationWith({
+        row: { type: 'array', prefixItems: [{ type: 'string' }, { type: 'integer' }], items: { type: 'boolean' } },
+      });
+
+      expect(validator.validateRequestBody(operation, { row: ['a', 1, true, false] }).valid).toBe(true);
+
+      const result = validator.validateRequestBody(operation, { row: ['a', 'b', 'c'] });
+      expect(result.errors!.map(e => e.path)).toEqual(['row[1]', 'row[2]']);
+    });
+  });
+
+  it('should validate multipart body against its own schema', () => {
+    const operation: OperationInfo = {
+      operationId: 'uploadFile',
+      method: 'POST',
+      path: '/uploads',
+      parameters: [],
+      requestBody: {
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: {
+              type: 'object',
+              required: ['file'],
+              properties: {
+                file: { type: 'string', format: 'binary' },
+                position: { type: 'integer' },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    // File argument shape is checked when resolved, not here
+    expect(validator.validateRequestBody(operation, { file: { path: '/tmp/a.png' }, position: 1 }).valid).toBe(true);
+
+    const result = validator.validateRequestBody(operation, { position: 'first' });
+    expect(result.errors!.map(e => e.path)).toEqual(['file', 'position']);
+  });
+});
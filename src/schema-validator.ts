@@ -7,6 +7,7 @@
 
 import type { SchemaInfo, OperationInfo } from './types/openapi.js';
 import { isEmail, isUri } from './validation-utils.js';
+import { getRequestBodySchema, isBinarySchema } from './request-body.js';
 
 export interface ValidationResult {
   valid: boolean;
@@ -30,11 +31,12 @@ export class SchemaValidator {
     operation: OperationInfo,
     body: Record<string, unknown>
   ): ValidationResult {
-    if (!operation.requestBody?.content['application/json']?.schema) {
+    // Same media type the request is encoded with (JSON, multipart or form)
+    const schema = getRequestBodySchema(operation.requestBody);
+    if (!schema) {
       return { valid: true };
     }
 
-    const schema = operation.requestBody.content['application/json'].schema;
     const errors: ValidationError[] = [];
 
     this.validateAgainstSchema(body, schema, '', errors);
@@ -56,10 +58,11 @@ export class SchemaValidator {
   ): void {
     // Null/undefined handling
     if (data === null || data === undefined) {
-      if (schema.type && schema.type !== 'null') {
+      const acceptsNull = schema.nullable || schema.type === 'null' || (data === null && schema.const === null);
+      if (schema.type && !acceptsNull) {
         errors.push({
           path: path || '(root)',
-          message: `Expected ${schema.type}, got ${data}`,
+          message: `Expected ${this.describeType(schema)}, got ${data}`,
           schema,
           value: data,
         });
@@ -67,13 +70,26 @@ export class SchemaValidator {
       return;
     }
 
-    // Type validation
+    // File arguments (content or {content|path}) are checked when resolved
+    if (isBinarySchema(schema)) {
+      return;
+    }
+
+    // Composition (oneOf/anyOf) - variants carry their own type constraints
+    if (schema.oneOf || schema.anyOf) {
+      this.validateComposition(data, schema, path, errors);
+    }
+
+    // Type validation (3.1 schemas may allow several types)
+    const actualType = this.getJsonType(data);
     if (schema.type) {
-      const actualType = Array.isArray(data) ? 'array' : typeof data;
-      if (actualType !== schema.type) {
+      const allowedTypes = schema.types || [schema.type];
+      const matches = allowedTypes.includes(actualType) ||
+        (allowedTypes.includes('number') && actualType === 'integer');
+      if (!matches) {
         errors.push({
           path: path || '(root)',
-          message: `Expected ${schema.type}, got ${actualType}`,
+          message: `Expected ${this.describeType(schema)}, got ${actualType}`,
           schema,
           value: data,
         });
@@ -81,6 +97,16 @@ export class SchemaValidator {
       }
     }
 
+    // Const validation (3.1)
+    if (schema.const !== undefined && JSON.stringify(data) !== JSON.stringify(schema.const)) {
+      errors.push({
+        path: path || '(root)',
+        message: `Value must be ${JSON.stringify(schema.const)}`,
+        schema,
+        value: data,
+      });
+    }
+
     // Enum validation
     // Note: Using 'as any' here is safe - we're checking if value exists in enum array
     // TypeScript doesn't know the enum values at compile time
@@ -94,7 +120,7 @@ export class SchemaValidator {
     }
 
     // Object properties validation
-    if (schema.type === 'object' && schema.properties) {
+    if (actualType === 'object' && schema.properties) {
       const obj = data as Record<string, unknown>;
       
       // Check required properties
@@ -123,20 +149,24 @@ export class SchemaValidator {
       }
     }
 
-    // Array items validation
-    if (schema.type === 'array' && schema.items && Array.isArray(data)) {
+    // Array items validation (prefixItems validate leading tuple positions)
+    if (Array.isArray(data)) {
+      const prefixItems = schema.prefixItems || [];
       data.forEach((item, index) => {
-        this.validateAgainstSchema(
-          item,
-          schema.items!,
-          `${path}[${index}]`,
-          errors
-        );
+        const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+        if (itemSchema) {
+          this.validateAgainstSchema(
+            item,
+            itemSchema,
+            `${path}[${index}]`,
+            errors
+          );
+        }
       });
     }
 
     // String format validation (basic)
-    if (schema.type === 'string' && schema.format && typeof data === 'string') {
+    if (schema.format && typeof data === 'string') {
       if (schema.format === 'email' && !isEmail(data)) {
         errors.push({
           path: path || '(root)',
@@ -156,5 +186,86 @@ export class SchemaValidator {
     }
   }
 
+  /**
+   * Validate oneOf/anyOf variants
+   *
+   * Why oneOf treated like anyOf: We don't check additionalProperties, so object
+   * variants commonly overlap. Requiring exactly one match would reject valid
+   * requests. With a discriminator, only the selected variant is validated.
+   */
+  private validateComposition(
+    data: unknown,
+    schema: SchemaInfo,
+    path: string,
+    errors: ValidationError[]
+  ): void {
+    const variants = schema.oneOf || schema.anyOf || [];
+    if (variants.length === 0) return;
+
+    if (schema.discriminator && typeof data === 'object' && !Array.isArray(data)) {
+      const value = (data as Record<string, unknown>)[schema.discriminator.propertyName];
+      if (typeof value === 'string') {
+        const variant = this.findDiscriminatedVariant(schema, variants, value);
+        if (!variant) {
+          errors.push({
+            path: path ? `${path}.${schema.discriminator.propertyName}` : schema.discriminator.propertyName,
+            message: `Unknown discriminator value '${value}'`,
+            schema,
+            value,
+          });
+          return;
+        }
+        this.validateAgainstSchema(data, variant, path, errors);
+        return;
+      }
+    }
+
+    const matchesAny = variants.some(variant => {
+      const variantErrors: ValidationError[] = [];
+      this.validateAgainstSchema(data, variant, path, variantErrors);
+      return variantErrors.length === 0;
+    });
+
+    if (!matchesAny) {
+      errors.push({
+        path: path || '(root)',
+        message: `Value does not match any of the ${variants.length} allowed schemas`,
+        schema,
+        value: data,
+      });
+    }
+  }
+
+  /**
+   * Find variant by discriminator value
+   *
+   * Explicit mapping wins; otherwise the value is matched against component names
+   * (OpenAPI implicit mapping).
+   */
+  private findDiscriminatedVariant(
+    schema: SchemaInfo,
+    variants: SchemaInfo[],
+    value: string
+  ): SchemaInfo | undefined {
+    const mapped = schema.discriminator?.mapping?.[value];
+    const targetName = mapped ? mapped.split('/').pop() : value;
+    return variants.find(variant => variant.refName === targetName);
+  }
+
+  /**
+   * Describe allowed types for error messages (e.g., "string or integer")
+   */
+  private describeType(schema: SchemaInfo): string {
+    return (schema.types || [schema.type]).join(' or ');
+  }
+
+  /**
+   * Get JSON Schema type name of value
+   */
+  private getJsonType(data: unknown): string {
+    if (Array.isArray(data)) return 'array';
+    if (typeof data === 'number' && Number.isInteger(data)) return 'integer';
+    return typeof data;
+  }
 }
 
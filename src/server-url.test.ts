@@ -0,0 +1,78 @@
+/**
+ * Tests for OpenAPI server selection and URL templating
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { selectServer, resolveServerUrl, getServerVariableValues } from './server-url.js';
+import { ConfigurationError } from './errors.js';
+import type { ServerInfo } from './types/openapi.js';
+
+const servers: ServerInfo[] = [
+  {
+    url: 'https://{region}.api.example.com/{version}',
+    description: 'Production',
+    variables: {
+      region: { default: 'eu', enum: ['eu', 'us'] },
+      version: { default: 'v1' },
+    },
+  },
+  { url: 'https://sandbox.example.com', description: 'Sandbox' },
+];
+
+describe('selectServer', () => {
+  it('should default to first server', () => {
+    expect(selectServer(servers)).toBe(servers[0]);
+    expect(selectServer([])).toBeUndefined();
+  });
+
+  it('should select by description case-insensitively', () => {
+    expect(selectServer(servers, { server_description: 'sandbox' })).toBe(servers[1]);
+  });
+
+  it('should select by index', () => {
+    expect(selectServer(servers, { server_index: 1 })).toBe(servers[1]);
+  });
+
+  it('should throw for unknown description or index', () => {
+    expect(() => selectServer(servers, { server_description: 'Staging' })).toThrow(ConfigurationError);
+    expect(() => selectServer(servers, { server_index: 5 })).toThrow('out of range');
+  });
+});
+
+describe('resolveServerUrl', () => {
+  it('should substitute spec defaults', () => {
+    expect(resolveServerUrl(servers[0])).toBe('https://eu.api.example.com/v1');
+  });
+
+  it('should prefer provided values over defaults', () => {
+    expect(resolveServerUrl(servers[0], { region: 'us', version: 'v2' })).toBe('https://us.api.example.com/v2');
+  });
+
+  it('should reject values outside enum', () => {
+    expect(() => resolveServerUrl(servers[0], { region: 'asia' })).toThrow("Must be one of: eu, us");
+  });
+
+  it('should throw for variable without value', () => {
+    expect(() => resolveServerUrl({ url: 'https://{tenant}.example.com' })).toThrow("'tenant'");
+  });
+});
+
+describe('getServerVariableValues', () => {
+  afterEach(() => {
+    delete process.env.TEST_API_REGION;
+  });
+
+  it('should read env values and fall back to profile default', () => {
+    const config = {
+      variables: {
+        region: { value_from_env: 'TEST_API_REGION', default: 'eu' },
+        version: { default: 'v2' },
+      },
+    };
+
+    expect(getServerVariableValues(config)).toEqual({ region: 'eu', version: 'v2' });
+
+    process.env.TEST_API_REGION = 'us';
+    expect(getServerVariableValues(config)).toEqual({ region: 'us', version: 'v2' });
+  });
+});
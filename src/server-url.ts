@@ -0,0 +1,90 @@
+/**
+ * OpenAPI server selection and URL templating
+ *
+ * Why: Specs describe servers as templates (https://{region}.api.example.com/{version})
+ * with several alternatives (production, sandbox). Profile picks a server and
+ * supplies variable values; spec defaults fill in the rest.
+ */
+
+import { ConfigurationError } from './errors.js';
+import type { BaseUrlConfig } from './types/profile.js';
+import type { ServerInfo } from './types/openapi.js';
+
+/**
+ * Pick server by description or index from profile base_url config
+ *
+ * Why throw: An explicit selector that matches nothing is a profile mistake;
+ * silently falling back would send requests to the wrong environment.
+ */
+export function selectServer(servers: ServerInfo[], config?: BaseUrlConfig): ServerInfo | undefined {
+  if (config?.server_description) {
+    const wanted = config.server_description.toLowerCase();
+    const server = servers.find(s => s.description?.toLowerCase() === wanted);
+    if (!server) {
+      throw new ConfigurationError(
+        `No OpenAPI server with description '${config.server_description}'. ` +
+        `Available: ${servers.map(s => s.description || s.url).join(', ')}`,
+        { serverDescription: config.server_description }
+      );
+    }
+    return server;
+  }
+
+  if (config?.server_index !== undefined) {
+    const server = servers[config.server_index];
+    if (!server) {
+      throw new ConfigurationError(
+        `OpenAPI server index ${config.server_index} out of range (spec has ${servers.length} servers)`,
+        { serverIndex: config.server_index }
+      );
+    }
+    return server;
+  }
+
+  return servers[0];
+}
+
+/**
+ * Read server variable values configured in profile (env first, then default)
+ */
+export function getServerVariableValues(config?: BaseUrlConfig): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const [name, variable] of Object.entries(config?.variables || {})) {
+    const value = (variable.value_from_env && process.env[variable.value_from_env]) || variable.default;
+    if (value !== undefined) {
+      values[name] = value;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Substitute {variables} in server URL
+ *
+ * Values from profile win over spec defaults. Enum-restricted variables are
+ * validated so a typo in env fails fast instead of hitting unknown host.
+ */
+export function resolveServerUrl(server: ServerInfo, values: Record<string, string> = {}): string {
+  return server.url.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    const variable = server.variables?.[name];
+    const value = values[name] ?? variable?.default;
+
+    if (value === undefined) {
+      throw new ConfigurationError(
+        `No value for server variable '${name}' in ${server.url}`,
+        { url: server.url, variable: name }
+      );
+    }
+
+    if (variable?.enum && !variable.enum.includes(value)) {
+      throw new ConfigurationError(
+        `Invalid value '${value}' for server variable '${name}'. Must be one of: ${variable.enum.join(', ')}`,
+        { url: server.url, variable: name, value }
+      );
+    }
+
+    return value;
+  });
+}
@@ -0,0 +1,153 @@
+/**
+ * Tests for multi-file spec bundling
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SpecBundler } from './spec-bundler.js';
+import { OpenAPIParser } from './openapi-parser.js';
+
+describe('SpecBundler', () => {
+  let dir: string;
+
+  async function writeFiles(files: Record<string, string>): Promise<void> {
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(dir, name);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+    }
+  }
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spec-bundler-'));
+
+    await writeFiles({
+      'openapi.yaml': `
+openapi: 3.0.3
+info: { title: Split API, version: '1.0' }
+paths:
+  /users:
+    $ref: './paths/users.yaml'
+  /users/{id}:
+    get:
+      operationId: getUser
+      parameters:
+        - $ref: './parameters.yaml#/UserId'
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/User'
+components:
+  schemas:
+    User:
+      $ref: './schemas/user.yaml#/User'
+`,
+      'paths/users.yaml': `
+post:
+  operationId: createUser
+  requestBody:
+    required: true
+    content:
+      application/json:
+        schema:
+          $ref: '../schemas/user.yaml#/User'
+  responses:
+    '201':
+      description: Created
+`,
+      'parameters.yaml': `
+UserId:
+  name: id
+  in: path
+  required: true
+  schema:
+    type: integer
+`,
+      'schemas/user.yaml': `
+User:
+  type: object
+  required: [name]
+  properties:
+    name:
+      type: string
+    address:
+      $ref: './address.yaml#/Address'
+    manager:
+      $ref: '#/User'
+`,
+      'schemas/address.yaml': `
+Address:
+  type: object
+  properties:
+    city:
+      type: string
+`,
+      'broken.yaml': `
+openapi: 3.0.3
+info: { title: Broken, version: '1.0' }
+paths:
+  /items:
+    $ref: './missing.yaml'
+`,
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should inline first occurrence under components and point later refs to it', async () => {
+    const bundled = await new SpecBundler().bundle(path.join(dir, 'openapi.yaml')) as any;
+
+    const user = bundled.components.schemas.User;
+    expect(user.type).toBe('object');
+    expect(user.properties.address.properties.city.type).toBe('string');
+
+    // Later refs to the same external target become local pointers
+    expect(bundled.paths['/users'].post.requestBody.content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/User' });
+
+    // Self-reference inside external file is cycle-safe
+    expect(user.properties.manager).toEqual({ $ref: '#/components/schemas/User' });
+  });
+
+  it('should return document unchanged when there are no external refs', async () => {
+    const specPath = path.join(process.cwd(), 'profiles/gitlab/openapi.yaml');
+    const bundled = await new SpecBundler().bundle(specPath) as any;
+    expect(bundled.openapi).toBeDefined();
+    expect(bundled.paths['/projects/{id}/badges']).toBeDefined();
+  });
+
+  it('should throw ConfigurationError for missing referenced files', async () => {
+    await expect(new SpecBundler().bundle(path.join(dir, 'broken.yaml')))
+      .rejects.toThrow('Failed to load referenced spec file');
+  });
+
+  it('should report missing referenced file among read files', async () => {
+    const bundler = new SpecBundler();
+    await bundler.bundle(path.join(dir, 'broken.yaml')).catch(() => undefined);
+
+    expect(bundler.getFiles()).toEqual([path.join(dir, 'broken.yaml'), path.join(dir, 'missing.yaml')]);
+  });
+
+  it('should index operations and parameters from split spec', async () => {
+    const parser = new OpenAPIParser();
+    await parser.load(path.join(dir, 'openapi.yaml'));
+
+    const createUser = parser.getOperation('createUser');
+    const bodySchema = createUser?.requestBody?.content['application/json'].schema;
+    expect(createUser?.path).toBe('/users');
+    expect(bodySchema?.required).toEqual(['name']);
+    expect(bodySchema?.properties?.manager).toMatchObject({ type: 'object', refName: 'User' });
+
+    const getUser = parser.getOperation('getUser');
+    expect(getUser?.parameters).toEqual([
+      expect.objectContaining({ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }),
+    ]);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Multi-file OpenAPI spec bundler
+ *
+ * Why: Larger specs are split into files (paths/*.yaml, schemas/*.yaml) and
+ * joined with relative refs like "./schemas/user.yaml#/User". The parser only
+ * resolves local "#/..." pointers, so external refs are bundled into a single
+ * document first.
+ *
+ * Strategy (same as common bundlers): the first occurrence of an external
+ * target is inlined, every later ref to the same target (including cyclic
+ * self-refs) becomes a local pointer to that location. Components are walked
+ * first so shared definitions get stable "#/components/..." locations.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ConfigurationError } from './errors.js';
+
+export class SpecBundler {
+  private documents = new Map<string, unknown>(); // absolute file path => parsed document
+  private files = new Set<string>(); // Every file read was attempted for, including one that failed
+  private inlined = new Map<string, string>(); // "file#fragment" => pointer in bundled document
+  private rootFile = '';
+
+  /**
+   * Load spec file and all files it references, return single bundled document
+   */
+  async bundle(specPath: string): Promise<unknown> {
+    this.rootFile = path.resolve(specPath);
+    this.documents.clear();
+    this.files.clear();
+    this.inlined.clear();
+
+    // Phase 1 (async): load every referenced file; phase 2 (sync): rewrite refs
+    await this.loadRecursive(this.rootFile);
+
+    const root = this.documents.get(this.rootFile);
+    if (this.documents.size === 1) {
+      return root; // No external refs - nothing to bundle
+    }
+
+    return this.walk(root, this.rootFile, '#');
+  }
+
+  /**
+   * Files read by last bundle() call (root first)
+   *
+   * Why include a file that failed to load: Watchers must see its fix.
+   */
+  getFiles(): string[] {
+    return [...this.files];
+  }
+
+  /**
+   * Read and parse spec file (YAML or JSON based on extension)
+   */
+  private async readDocument(filePath: string): Promise<unknown> {
+    const content = await fs.readFile(filePath, 'utf-8');
+
+    if (filePath.endsWith('.yaml') || filePath.endsWith('.yml')) {
+      return parseYaml(content);
+    }
+    return JSON.parse(content);
+  }
+
+  private async loadRecursive(filePath: string): Promise<void> {
+    if (this.documents.has(filePath)) return;
+    this.files.add(filePath);
+
+    let document: unknown;
+    try {
+      document = await this.readDocument(filePath);
+    } catch (error) {
+      // Root spec errors keep their original form (e.g., ENOENT for wrong OPENAPI_SPEC_PATH)
+      if (filePath === this.rootFile) throw error;
+      throw new ConfigurationError(
+        `Failed to load referenced spec file: ${filePath}`,
+        { file: filePath, error: error instanceof Error ? error.message : String(error) }
+      );
+    }
+    this.documents.set(filePath, document);
+
+    for (const ref of this.collectExternalRefs(document)) {
+      await this.loadRecursive(this.resolveFile(ref, filePath));
+    }
+  }
+
+  private collectExternalRefs(node: unknown, refs: Set<string> = new Set()): Set<string> {
+    if (Array.isArray(node)) {
+      node.forEach(item => this.collectExternalRefs(item, refs));
+    } else if (node && typeof node === 'object') {
+      for (const [key, value] of Object.entries(node)) {
+        if (key === '$ref' && typeof value === 'string' && !value.startsWith('#')) {
+          refs.add(value.split('#')[0]);
+        } else {
+          this.collectExternalRefs(value, refs);
+        }
+      }
+    }
+    return refs;
+  }
+
+  private resolveFile(fileRef: string, fromFile: string): string {
+    if (/^[a-z]+:\/\//i.test(fileRef)) {
+      throw new ConfigurationError(
+        `Remote $ref is not supported: ${fileRef}. Download the file and use a relative path.`,
+        { ref: fileRef, file: fromFile }
+      );
+    }
+    return path.resolve(path.dirname(fromFile), fileRef);
+  }
+
+  /**
+   * Copy node, replacing refs that point outside root document
+   *
+   * @param file File the node comes from (relative refs resolve against it)
+   * @param pointer Location of the node in bundled document
+   */
+  private walk(node: unknown, file: string, pointer: string): unknown {
+    if (Array.isArray(node)) {
+      return node.map((item, i) => this.walk(item, file, `${pointer}/${i}`));
+    }
+
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    const obj = node as Record<string, unknown>;
+    if (typeof obj.$ref === 'string') {
+      return this.walkRef(obj, file, pointer);
+    }
+
+    // Components first: shared definitions should be inlined under components
+    const keys = Object.keys(obj);
+    const ordered = [...keys.filter(k => k === 'components'), ...keys.filter(k => k !== 'components')];
+
+    const walked: Record<string, unknown> = {};
+    for (const key of ordered) {
+      walked[key] = this.walk(obj[key], file, `${pointer}/${this.escapePointer(key)}`);
+    }
+
+    // Preserve original key order
+    return Object.fromEntries(keys.map(key => [key, walked[key]]));
+  }
+
+  private walkRef(node: Record<string, unknown>, file: string, pointer: string): unknown {
+    const { $ref, ...siblings } = node as { $ref: string } & Record<string, unknown>;
+    const [fileRef, fragment = ''] = $ref.split('#');
+
+    // Local ref in root document - already valid
+    if (!fileRef && file === this.rootFile) {
+      return node;
+    }
+
+    const targetFile = fileRef ? this.resolveFile(fileRef, file) : file;
+    // Ref into root document from external file => plain local ref
+    if (targetFile === this.rootFile) {
+      return { ...siblings, $ref: `#${fragment}` };
+    }
+
+    const key = `${targetFile}#${fragment}`;
+    const existing = this.inlined.get(key);
+    if (existing) {
+      return { ...this.walkSiblings(siblings, file, pointer), $ref: existing };
+    }
+
+    const target = this.getByPointer(this.documents.get(targetFile), fragment);
+    if (target === undefined) {
+      throw new ConfigurationError(
+        `Cannot resolve $ref '${$ref}' in ${file}`,
+        { ref: $ref, file, targetFile }
+      );
+    }
+
+    // Register before walking so cyclic refs point back here
+    this.inlined.set(key, pointer);
+    const inlinedTarget = this.walk(target, targetFile, pointer);
+
+    if (Object.keys(siblings).length > 0 && inlinedTarget && typeof inlinedTarget === 'object') {
+      return { ...inlinedTarget, ...this.walkSiblings(siblings, file, pointer) };
+    }
+    return inlinedTarget;
+  }
+
+  private walkSiblings(siblings: Record<string, unknown>, file: string, pointer: string): Record<string, unknown> {
+    return this.walk(siblings, file, pointer) as Record<string, unknown>;
+  }
+
+  /**
+   * Resolve JSON pointer fragment ("/User/properties/id") in document
+   */
+  private getByPointer(document: unknown, fragment: string): unknown {
+    if (!fragment || fragment === '/') return document;
+
+    let current = document;
+    for (const rawSegment of fragment.replace(/^\//, '').split('/')) {
+      const segment = decodeURIComponent(rawSegment).replace(/~1/g, '/').replace(/~0/g, '~');
+      if (!current || typeof current !== 'object') return undefined;
+      current = (current as Record<string, unknown>)[segment];
+    }
+    return current;
+  }
+
+  private escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Tests for Swagger 2.0 upconversion
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import { isSwagger2, convertSwagger2 } from './swagger2-converter.js';
+import { OpenAPIParser } from './openapi-parser.js';
+
+const petstore: OpenAPIV2.Document = {
+  swagger: '2.0',
+  info: { title: 'Petstore', version: '1.0' },
+  host: 'petstore.example.com',
+  basePath: '/v2',
+  schemes: ['https', 'http'],
+  consumes: ['application/json'],
+  produces: ['application/json'],
+  securityDefinitions: {
+    api_key: { type: 'apiKey', name: 'api_key', in: 'header' },
+    basic: { type: 'basic' },
+    oauth: {
+      type: 'oauth2',
+      flow: 'accessCode',
+      authorizationUrl: 'https://auth.example.com/authorize',
+      tokenUrl: 'https://auth.example.com/token',
+      scopes: { 'read:pets': 'Read pets' },
+    },
+  },
+  security: [{ api_key: [] }],
+  parameters: {
+    PetId: { name: 'petId', in: 'path', required: true, type: 'integer', format: 'int64' },
+    PetBody: { name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+  },
+  definitions: {
+    Pet: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string' },
+        category: { $ref: '#/definitions/Category' },
+      },
+    },
+    Category: { type: 'object', properties: { id: { type: 'integer' } } },
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        parameters: [
+          { name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'multi' },
+        ],
+        responses: {
+          200: { description: 'OK', schema: { type: 'array', items: { $ref: '#/definitions/Pet' } } },
+        },
+      },
+      post: {
+        operationId: 'createPet',
+        parameters: [{ $ref: '#/parameters/PetBody' }],
+        responses: { 201: { description: 'Created' } },
+      },
+    },
+    '/pets/{petId}': {
+      parameters: [{ $ref: '#/parameters/PetId' }],
+      get: {
+        operationId: 'getPet',
+        responses: { 200: { description: 'OK', schema: { $ref: '#/definitions/Pet' } } },
+      },
+    },
+    '/pets/{petId}/photo': {
+      post: {
+        operationId: 'uploadPhoto',
+        consumes: ['multipart/form-data'],
+        parameters: [
+          { name: 'petId', in: 'path', required: true, type: 'integer' },
+          { name: 'caption', in: 'formData', type: 'string' },
+          { name: 'file', in: 'formData', required: true, type: 'file' },
+        ],
+        responses: { 200: { description: 'OK' } },
+      },
+    },
+  },
+};
+
+describe('isSwagger2', () => {
+  it('should detect Swagger 2.0 documents', () => {
+    expect(isSwagger2(petstore)).toBe(true);
+    expect(isSwagger2({ openapi: '3.0.0' })).toBe(false);
+    expect(isSwagger2(null)).toBe(false);
+  });
+});
+
+describe('convertSwagger2', () => {
+  const converted = convertSwagger2(petstore);
+
+  it('should build servers from host, basePath and schemes', () => {
+    expect(converted.openapi).toMatch(/^3\.0/);
+    expect(converted.servers).toEqual([
+      { url: 'https://petstore.example.com/v2' },
+      { url: 'http://petstore.example.com/v2' },
+    ]);
+  });
+
+  it('should use relative server URL without host', () => {
+    const result = convertSwagger2({ ...petstore, host: undefined });
+    expect(result.servers).toEqual([{ url: '/v2' }]);
+  });
+
+  it('should move definitions to components and rewrite refs', () => {
+    const pet = converted.components?.schemas?.Pet as OpenAPIV3.SchemaObject;
+    expect(pet.properties?.category).toEqual({ $ref: '#/components/schemas/Category' });
+    expect(JSON.stringify(converted)).not.toContain('#/definitions/');
+  });
+
+  it('should convert body parameter refs to requestBody', () => {
+    const operation = converted.paths['/pets']?.post;
+    const requestBody = operation?.requestBody as OpenAPIV3.RequestBodyObject;
+    expect(operation?.parameters).toBeUndefined();
+    expect(requestBody.required).toBe(true);
+    expect(requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Pet' });
+    expect(converted.components?.parameters?.PetBody).toBeUndefined();
+  });
+
+  it('should convert formData parameters to multipart requestBody', () => {
+    const operation = converted.paths['/pets/{petId}/photo']?.post;
+    const requestBody = operation?.requestBody as OpenAPIV3.RequestBodyObject;
+    const schema = requestBody.content['multipart/form-data'].schema as OpenAPIV3.SchemaObject;
+
+    expect(operation?.parameters).toHaveLength(1);
+    expect(schema.properties?.file).toMatchObject({ type: 'string', format: 'binary' });
+    expect(schema.required).toEqual(['file']);
+  });
+
+  it('should convert non-body parameters to schema-based parameters', () => {
+    const [tags] = converted.paths['/pets']?.get?.parameters as OpenAPIV3.ParameterObject[];
+    expect(tags.schema).toEqual({ type: 'array', items: { type: 'string' } });
+    expect(tags.explode).toBe(true);
+
+    const petId = converted.components?.parameters?.PetId as OpenAPIV3.ParameterObject;
+    expect(petId.schema).toEqual({ type: 'integer', format: 'int64' });
+    expect(converted.paths['/pets/{petId}']?.parameters).toEqual([{ $ref: '#/components/parameters/PetId' }]);
+  });
+
+  it('should map response schemas to produces media types', () => {
+    const response = converted.paths['/pets/{petId}']?.get?.responses['200'] as OpenAPIV3.ResponseObject;
+    expect(response.content?.['application/json'].schema).toEqual({ $ref: '#/components/schemas/Pet' });
+  });
+
+  it('should convert securityDefinitions to securitySchemes', () => {
+    const schemes = converted.components?.securitySchemes;
+    expect(schemes?.api_key).toMatchObject({ type: 'apiKey', name: 'api_key', in: 'header' });
+    expect(schemes?.basic).toMatchObject({ type: 'http', scheme: 'basic' });
+    expect(schemes?.oauth).toMatchObject({
+      type: 'oauth2',
+      flows: { authorizationCode: { tokenUrl: 'https://auth.example.com/token' } },
+    });
+  });
+});
+
+describe('OpenAPIParser - Swagger 2.0', () => {
+  it('should load Swagger 2.0 spec into OpenAPI index', async () => {
+    const fs = await import('fs/promises');
+    const tmpPath = '/tmp/swagger2-petstore.json';
+    await fs.writeFile(tmpPath, JSON.stringify(petstore));
+
+    const parser = new OpenAPIParser();
+    await parser.load(tmpPath);
+
+    expect(parser.getBaseUrl()).toBe('https://petstore.example.com/v2');
+    expect(parser.getSecurityScheme()).toEqual({ type: 'apiKey', name: 'api_key', in: 'header' });
+
+    const createPet = parser.getOperation('createPet');
+    const bodySchema = createPet?.requestBody?.content['application/json'].schema;
+    expect(bodySchema?.required).toEqual(['name']);
+    expect(bodySchema?.properties?.category.properties?.id.type).toBe('integer');
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * Swagger 2.0 to OpenAPI 3.0 upconversion
+ *
+ * Why convert upfront: The rest of the pipeline (indexing, tool generation,
+ * composite steps, default profile) only understands OpenAPI 3.x. Converting
+ * once at load time keeps Swagger specifics out of every other module.
+ *
+ * Covered: definitions, shared parameters/responses, body and formData
+ * parameters, host/basePath/schemes, consumes/produces, securityDefinitions.
+ */
+
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+
+const DEFAULT_MEDIA_TYPE = 'application/json';
+const FORM_URLENCODED = 'application/x-www-form-urlencoded';
+const MULTIPART_FORM = 'multipart/form-data';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const;
+
+// Keys shared by Swagger 2.0 non-body parameters / items and JSON Schema
+const SCHEMA_KEYS = [
+  'type', 'format', 'enum', 'default', 'minimum', 'maximum', 'exclusiveMinimum',
+  'exclusiveMaximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems',
+  'uniqueItems', 'multipleOf',
+] as const;
+
+// Swagger 2.0 local refs => OpenAPI 3.0 component refs
+const REF_PREFIXES: Array<[string, string]> = [
+  ['#/definitions/', '#/components/schemas/'],
+  ['#/parameters/', '#/components/parameters/'],
+  ['#/responses/', '#/components/responses/'],
+];
+
+type Swagger2Parameter = OpenAPIV2.Parameter | OpenAPIV2.ReferenceObject;
+
+/**
+ * Check if parsed document is Swagger 2.0
+ */
+export function isSwagger2(doc: unknown): doc is OpenAPIV2.Document {
+  return typeof doc === 'object' && doc !== null &&
+    String((doc as Record<string, unknown>).swagger).startsWith('2');
+}
+
+/**
+ * Convert Swagger 2.0 document to OpenAPI 3.0 document
+ */
+export function convertSwagger2(doc: OpenAPIV2.Document): OpenAPIV3.Document {
+  const converter = new Swagger2Converter(doc);
+  return converter.convert();
+}
+
+class Swagger2Converter {
+  constructor(private doc: OpenAPIV2.Document) {}
+
+  convert(): OpenAPIV3.Document {
+    const { swagger, host, basePath, schemes, consumes, produces, definitions, parameters,
+      responses, securityDefinitions, paths, ...rest } = this.doc;
+
+    const result = {
+      ...rest,
+      openapi: '3.0.3',
+      servers: this.convertServers(),
+      paths: this.convertPaths(),
+      components: {
+        schemas: definitions,
+        parameters: this.convertSharedParameters(),
+        responses: this.convertSharedResponses(),
+        securitySchemes: this.convertSecurityDefinitions(),
+      },
+    };
+
+    return rewriteRefs(result) as OpenAPIV3.Document;
+  }
+
+  /**
+   * Build servers from host/basePath/schemes
+   *
+   * Without host, the server URL is relative (basePath only), matching
+   * Swagger 2.0 semantics of "same host as the spec".
+   */
+  private convertServers(): OpenAPIV3.ServerObject[] {
+    const basePath = this.doc.basePath || '';
+    if (!this.doc.host) {
+      return basePath ? [{ url: basePath }] : [];
+    }
+
+    const schemes = this.doc.schemes?.length ? this.doc.schemes : ['https'];
+    return schemes.map(scheme => ({ url: `${scheme}://${this.doc.host}${basePath}` }));
+  }
+
+  private convertPaths(): OpenAPIV3.PathsObject {
+    const paths: OpenAPIV3.PathsObject = {};
+
+    for (const [path, pathItem] of Object.entries(this.doc.paths || {})) {
+      if (!pathItem) continue;
+
+      const { parameters: pathParams = [], ...pathRest } = pathItem;
+      const resolvedPathParams = pathParams.map(p => this.resolveParameter(p));
+
+      // Body/formData params on path level apply to every operation (no path-level requestBody in 3.0)
+      const pathBodyParams = resolvedPathParams.filter(p => this.isBodyOrForm(p));
+      const pathOtherParams = pathParams.filter((_, i) => !this.isBodyOrForm(resolvedPathParams[i]));
+
+      const converted: Record<string, unknown> = { ...pathRest };
+      if (pathOtherParams.length > 0) {
+        converted.parameters = pathOtherParams.map(p => this.convertParameter(p));
+      }
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!operation) continue;
+        converted[method] = this.convertOperation(operation, pathBodyParams);
+      }
+
+      paths[path] = converted as OpenAPIV3.PathItemObject;
+    }
+
+    return paths;
+  }
+
+  private convertOperation(
+    operation: OpenAPIV2.OperationObject,
+    inheritedBodyParams: OpenAPIV2.Parameter[]
+  ): OpenAPIV3.OperationObject {
+    const { parameters = [], consumes, produces, responses, schemes, ...rest } = operation;
+
+    const params: Swagger2Parameter[] = [...parameters];
+    const resolved = params.map(p => this.resolveParameter(p));
+
+    // Operation-level body/formData params override inherited ones by name
+    const ownBodyNames = new Set(resolved.filter(p => this.isBodyOrForm(p)).map(p => p.name));
+    const bodyParams = [
+      ...inheritedBodyParams.filter(p => !ownBodyNames.has(p.name)),
+      ...resolved.filter(p => this.isBodyOrForm(p)),
+    ];
+
+    const result: OpenAPIV3.OperationObject = {
+      ...rest,
+      responses: this.convertResponses(responses, produces || this.doc.produces),
+    } as OpenAPIV3.OperationObject;
+
+    const otherParams = params.filter((_, i) => !this.isBodyOrForm(resolved[i]));
+    if (otherParams.length > 0) {
+      result.parameters = otherParams.map(p => this.convertParameter(p));
+    }
+
+    const requestBody = this.convertRequestBody(bodyParams, consumes || this.doc.consumes);
+    if (requestBody) {
+      result.requestBody = requestBody;
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert body or formData params into requestBody
+   *
+   * Why formData becomes object schema: OpenAPI 3.0 models form fields as
+   * properties of the form media type schema.
+   */
+  private convertRequestBody(
+    params: OpenAPIV2.Parameter[],
+    consumes: string[] | undefined
+  ): OpenAPIV3.RequestBodyObject | undefined {
+    const bodyParam = params.find(p => p.in === 'body') as OpenAPIV2.InBodyParameterObject | undefined;
+    if (bodyParam) {
+      const mediaTypes = consumes?.length ? consumes : [DEFAULT_MEDIA_TYPE];
+      return {
+        description: bodyParam.description,
+        required: bodyParam.required ?? false,
+        content: Object.fromEntries(
+          mediaTypes.map(mediaType => [mediaType, { schema: bodyParam.schema as OpenAPIV3.SchemaObject }])
+        ),
+      };
+    }
+
+    const formParams = params.filter(p => p.in === 'formData') as OpenAPIV2.GeneralParameterObject[];
+    if (formParams.length === 0) return undefined;
+
+    const properties: Record<string, OpenAPIV3.SchemaObject> = {};
+    const required: string[] = [];
+    for (const param of formParams) {
+      properties[param.name] = { ...this.toSchema(param), description: param.description };
+      if (param.required) required.push(param.name);
+    }
+
+    const hasFile = formParams.some(p => p.type === 'file');
+    const formTypes = (consumes || []).filter(t => t === MULTIPART_FORM || t === FORM_URLENCODED);
+    const mediaTypes = formTypes.length > 0 ? formTypes : [hasFile ? MULTIPART_FORM : FORM_URLENCODED];
+
+    const schema: OpenAPIV3.SchemaObject = {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    };
+
+    return {
+      required: required.length > 0,
+      content: Object.fromEntries(mediaTypes.map(mediaType => [mediaType, { schema }])),
+    };
+  }
+
+  private convertResponses(
+    responses: OpenAPIV2.ResponsesObject | undefined,
+    produces: string[] | undefined
+  ): OpenAPIV3.ResponsesObject {
+    const result: OpenAPIV3.ResponsesObject = {};
+
+    for (const [status, response] of Object.entries(responses || {})) {
+      if (!response) continue;
+      result[status] = this.convertResponse(response, produces);
+    }
+
+    return result;
+  }
+
+  private convertResponse(
+    response: OpenAPIV2.Response,
+    produces: string[] | undefined
+  ): OpenAPIV3.ResponseObject | OpenAPIV3.ReferenceObject {
+    if ('$ref' in response) {
+      return { $ref: response.$ref };
+    }
+
+    const { schema, headers, examples, ...rest } = response as OpenAPIV2.ResponseObject;
+    const result: OpenAPIV3.ResponseObject = {
+      ...rest,
+      description: response.description || '',
+    };
+
+    if (schema) {
+      const mediaTypes = produces?.length ? produces : [DEFAULT_MEDIA_TYPE];
+      result.content = Object.fromEntries(
+        mediaTypes.map(mediaType => [mediaType, { schema: schema as OpenAPIV3.SchemaObject }])
+      );
+    }
+
+    if (headers) {
+      result.headers = Object.fromEntries(
+        Object.entries(headers).map(([name, header]) => [
+          name,
+          { description: header.description, schema: this.toSchema(header) },
+        ])
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert non-body parameter (or keep ref)
+   */
+  private convertParameter(param: Swagger2Parameter): OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject {
+    if ('$ref' in param) {
+      return { $ref: param.$ref };
+    }
+
+    const general = param as OpenAPIV2.GeneralParameterObject;
+    const result: OpenAPIV3.ParameterObject = {
+      name: general.name,
+      in: general.in,
+      description: general.description,
+      required: general.in === 'path' ? true : general.required ?? false,
+      schema: this.toSchema(general),
+    };
+
+    // collectionFormat => style/explode
+    if (general.type === 'array') {
+      switch (general.collectionFormat) {
+        case 'multi':
+          result.style = 'form';
+          result.explode = true;
+          break;
+        case 'ssv':
+          result.style = 'spaceDelimited';
+          result.explode = false;
+          break;
+        case 'pipes':
+          result.style = 'pipeDelimited';
+          result.explode = false;
+          break;
+        case 'csv':
+        case undefined:
+          result.style = general.in === 'query' || general.in === 'cookie' ? 'form' : 'simple';
+          result.explode = false;
+          break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Shared parameters: only non-body ones can stay components.parameters
+   *
+   * Body/formData refs are inlined into requestBody during operation conversion.
+   */
+  private convertSharedParameters(): Record<string, OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject> | undefined {
+    if (!this.doc.parameters) return undefined;
+
+    const result: Record<string, OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject> = {};
+    for (const [name, param] of Object.entries(this.doc.parameters)) {
+      if (this.isBodyOrForm(param)) continue;
+      result[name] = this.convertParameter(param as OpenAPIV2.Parameter);
+    }
+    return result;
+  }
+
+  private convertSharedResponses(): Record<string, OpenAPIV3.ResponseObject | OpenAPIV3.ReferenceObject> | undefined {
+    if (!this.doc.responses) return undefined;
+
+    const result: Record<string, OpenAPIV3.ResponseObject | OpenAPIV3.ReferenceObject> = {};
+    for (const [name, response] of Object.entries(this.doc.responses)) {
+      result[name] = this.convertResponse(response, this.doc.produces);
+    }
+    return result;
+  }
+
+  private convertSecurityDefinitions(): Record<string, OpenAPIV3.SecuritySchemeObject> | undefined {
+    if (!this.doc.securityDefinitions) return undefined;
+
+    const result: Record<string, OpenAPIV3.SecuritySchemeObject> = {};
+    for (const [name, definition] of Object.entries(this.doc.securityDefinitions)) {
+      switch (definition.type) {
+        case 'basic':
+          result[name] = { type: 'http', scheme: 'basic', description: definition.description };
+          break;
+
+        case 'apiKey':
+          result[name] = {
+            type: 'apiKey',
+            name: definition.name,
+            in: definition.in,
+            description: definition.description,
+          };
+          break;
+
+        case 'oauth2':
+          result[name] = {
+            type: 'oauth2',
+            description: definition.description,
+            flows: this.convertOAuthFlow(definition),
+          };
+          break;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Map Swagger 2.0 OAuth flow names to OpenAPI 3.0 flows
+   *
+   * application => clientCredentials, accessCode => authorizationCode
+   */
+  private convertOAuthFlow(definition: OpenAPIV2.SecuritySchemeOauth2): OpenAPIV3.OAuth2SecurityScheme['flows'] {
+    const scopes = definition.scopes || {};
+
+    switch (definition.flow) {
+      case 'implicit':
+        return { implicit: { authorizationUrl: definition.authorizationUrl, scopes } };
+      case 'password':
+        return { password: { tokenUrl: definition.tokenUrl, scopes } };
+      case 'application':
+        return { clientCredentials: { tokenUrl: definition.tokenUrl, scopes } };
+      case 'accessCode':
+        return {
+          authorizationCode: {
+            authorizationUrl: definition.authorizationUrl,
+            tokenUrl: definition.tokenUrl,
+            scopes,
+          },
+        };
+    }
+  }
+
+  /**
+   * Resolve "#/parameters/X" ref against Swagger 2.0 document
+   */
+  private resolveParameter(param: Swagger2Parameter): OpenAPIV2.Parameter {
+    if (!('$ref' in param)) return param;
+
+    const name = param.$ref.replace('#/parameters/', '');
+    const resolved = this.doc.parameters?.[name] as OpenAPIV2.Parameter | undefined;
+    // Unresolvable refs are treated as non-body and passed through untouched
+    return resolved || ({ name, in: 'query' } as OpenAPIV2.Parameter);
+  }
+
+  private isBodyOrForm(param: OpenAPIV2.ParameterObject): boolean {
+    return param.in === 'body' || param.in === 'formData';
+  }
+
+  /**
+   * Build JSON Schema from Swagger 2.0 parameter/items/header fields
+   *
+   * Why file => binary string: OpenAPI 3.0 dropped the "file" type.
+   */
+  private toSchema(source: object): OpenAPIV3.SchemaObject {
+    const fields = source as Record<string, unknown>;
+    const schema: Record<string, unknown> = {};
+
+    for (const key of SCHEMA_KEYS) {
+      if (fields[key] !== undefined) {
+        schema[key] = fields[key];
+      }
+    }
+
+    if (schema.type === 'file') {
+      schema.type = 'string';
+      schema.format = 'binary';
+    }
+
+    if (fields.items && typeof fields.items === 'object') {
+      schema.items = '$ref' in fields.items
+        ? { $ref: (fields.items as { $ref: string }).$ref }
+        : this.toSchema(fields.items);
+    }
+
+    return schema as OpenAPIV3.SchemaObject;
+  }
+}
+
+/**
+ * Rewrite Swagger 2.0 local refs to OpenAPI 3.0 component refs (deep copy)
+ */
+function rewriteRefs(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(rewriteRefs);
+  }
+
+  if (!node || typeof node !== 'object') {
+    return node;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (value === undefined) continue;
+
+    if (key === '$ref' && typeof value === 'string') {
+      const prefix = REF_PREFIXES.find(([from]) => value.startsWith(from));
+      result[key] = prefix ? prefix[1] + value.slice(prefix[0].length) : value;
+    } else {
+      result[key] = rewriteRefs(value);
+    }
+  }
+  return result;
+}
@@ -6,7 +6,9 @@ import { describe, it, expect, beforeAll } from 'vitest';
 import { ToolGenerator } from './tool-generator.js';
 import { OpenAPIParser } from './openapi-parser.js';
 import { ProfileLoader } from './profile-loader.js';
-import type { Profile } from './types/profile.js';
+import { BinaryBody } from './response-content.js';
+import Ajv from 'ajv';
+import type { Profile, ToolDefinition } from './types/profile.js';
 import path from 'path';
 
 describe('ToolGenerator', () => {
@@ -102,3 +104,139 @@ describe('ToolGenerator', () => {
   });
 });
 
+
+describe('ToolGenerator - output schema', () => {
+  const parser = new OpenAPIParser();
+  (parser as any).spec = {
+    openapi: '3.0.0',
+    info: { title: 'Test API', version: '1.0' },
+    paths: {
+      '/items': {
+        get: {
+          operationId: 'listItems',
+          responses: {
+            200: {
+              description: 'OK',
+              content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Item' } } } },
+            },
+          },
+        },
+      },
+      '/items/{id}': {
+        get: {
+          operationId: 'getItem',
+          responses: {
+            200: { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } } },
+          },
+        },
+        delete: {
+          operationId: 'deleteItem',
+          responses: { 204: { description: 'Deleted' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Item: {
+          type: 'object',
+          required: ['id', 'name'],
+          properties: {
+            id: { type: 'integer', format: 'int64' },
+            name: { type: 'string' },
+            owner: { type: 'string', nullable: true },
+          },
+        },
+      },
+    },
+  };
+  (parser as any).buildIndex();
+  const generator = new ToolGenerator(parser);
+
+  function toolDef(operations: Record<string, string>, extra: Partial<ToolDefinition> = {}): ToolDefinition {
+    return { name: 'items', description: 'Items', operations, parameters: {}, ...extra };
+  }
+
+  it('should emit object response schema as outputSchema', () => {
+    const tool = generator.generateTool(toolDef({ get: 'getItem' }));
+
+    expect(tool.outputSchema).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        name: { type: 'string' },
+        owner: { type: ['string', 'null'] },
+      },
+    });
+  });
+
+  it('should wrap array responses under result', () => {
+    const def = toolDef({ list: 'listItems' });
+    const tool = generator.generateTool(def);
+
+    expect(tool.outputSchema?.required).toBeUndefined();
+    expect((tool.outputSchema?.properties as any).result.type).toBe('array');
+    expect(generator.buildStructuredContent(def, [{ id: 1 }])).toEqual({ result: [{ id: 1 }] });
+  });
+
+  it('should apply response_fields to output schema', () => {
+    const def = toolDef(
+      { list: 'listItems', get: 'getItem' },
+      { response_fields: { list: ['id'] } }
+    );
+    const tool = generator.generateTool(def);
+    const variants = (tool.outputSchema?.properties as any).result.anyOf;
+
+    expect(variants).toHaveLength(2);
+    expect(Object.keys(variants[0].items.properties)).toEqual(['id']);
+    expect(Object.keys(variants[1].properties)).toEqual(['id', 'name', 'owner']);
+  });
+
+  describe('structured content matching outputSchema', () => {
+    const ajv = new Ajv({ strict: false });
+
+    function structuredContent(def: ToolDefinition, result: unknown) {
+      const content = generator.buildStructuredContent(def, result);
+      const valid = ajv.validate(generator.generateTool(def).outputSchema!, content);
+      expect(valid, ajv.errorsText()).toBe(true);
+      return content;
+    }
+
+    it('should accept object missing fields spec marks required', () => {
+      expect(structuredContent(toolDef({ get: 'getItem' }), { id: 1 })).toEqual({ id: 1 });
+    });
+
+    it('should return empty object for empty body', () => {
+      expect(structuredContent(toolDef({ get: 'getItem' }), '')).toEqual({});
+      expect(structuredContent(toolDef({ list: 'listItems' }), '')).toEqual({});
+    });
+
+    it('should wrap text body', () => {
+      expect(structuredContent(toolDef({ get: 'getItem' }), 'Service Unavailable'))
+        .toEqual({ result: 'Service Unavailable' });
+    });
+
+    it('should wrap binary body metadata', () => {
+      const body = new BinaryBody(Buffer.from('%PDF'), 'application/pdf', 'https://api.example.com/items/1');
+
+      expect(structuredContent(toolDef({ get: 'getItem' }), body)).toEqual({
+        result: { mimeType: 'application/pdf', size: 4, uri: 'https://api.example.com/items/1' },
+      });
+    });
+
+    it('should wrap array returned for object schema', () => {
+      expect(structuredContent(toolDef({ get: 'getItem' }), [{ id: 1 }])).toEqual({ result: [{ id: 1 }] });
+    });
+  });
+
+  it('should skip outputSchema when any operation has no JSON response', () => {
+    const def = toolDef({ get: 'getItem', delete: 'deleteItem' });
+
+    expect(generator.generateTool(def).outputSchema).toBeUndefined();
+    expect(generator.buildStructuredContent(def, { id: 1 })).toBeUndefined();
+  });
+
+  it('should skip outputSchema for composite tools', () => {
+    const def = toolDef({ get: 'getItem' }, { composite: true, steps: [] });
+    expect(generator.generateTool(def).outputSchema).toBeUndefined();
+  });
+});
@@ -8,6 +8,19 @@
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import type { ToolDefinition, ParameterDefinition } from './types/profile.js';
 import type { OpenAPIParser } from './openapi-parser.js';
+import type { OperationInfo, SchemaInfo } from './types/openapi.js';
+import { BinaryBody } from './response-content.js';
+
+/**
+ * Tool result shape derived from OpenAPI success responses
+ *
+ * Why wrapped: MCP requires structuredContent to be an object. Tools whose
+ * responses are arrays or primitives return { result: <response> } instead.
+ */
+interface ToolOutput {
+  schemas: SchemaInfo[]; // One per operation, after response_fields filtering
+  wrapped: boolean;
+}
 
 export class ToolGenerator {
   constructor(private parser: OpenAPIParser) {}
@@ -17,14 +30,37 @@ export class ToolGenerator {
    */
   generateTool(toolDef: ToolDefinition): Tool {
     const inputSchema = this.generateInputSchema(toolDef);
+    const outputSchema = this.generateOutputSchema(toolDef);
 
     return {
       name: toolDef.name,
       description: toolDef.description,
       inputSchema,
+      outputSchema,
     };
   }
 
+  /**
+   * Build MCP structuredContent for tool result
+   *
+   * Returns undefined for tools without outputSchema (text content only).
+   * Why always an object: Clients reject calls to tools with outputSchema
+   * that return no structuredContent, so empty, text and binary bodies the
+   * spec didn't promise are wrapped too (empty body as {}).
+   */
+  buildStructuredContent(toolDef: ToolDefinition, result: unknown): Record<string, unknown> | undefined {
+    const output = this.resolveOutput(toolDef);
+    if (!output) return undefined;
+
+    if (!output.wrapped && isPlainObject(result)) {
+      return result;
+    }
+    if (result === undefined || result === '') {
+      return {};
+    }
+    return { result: result instanceof BinaryBody ? result.toJSON() : result };
+  }
+
   /**
    * Generate JSON Schema for tool parameters
    * 
@@ -58,6 +94,170 @@ export class ToolGenerator {
     };
   }
 
+  /**
+   * Generate JSON Schema for tool result from OpenAPI response schemas
+   *
+   * Why anyOf: Multi-action tools return a different entity per action.
+   */
+  private generateOutputSchema(toolDef: ToolDefinition): Tool['outputSchema'] {
+    const output = this.resolveOutput(toolDef);
+    if (!output) return undefined;
+
+    // Actions often share response schema (e.g., get/create/update return same entity)
+    const variants = [...new Map(
+      output.schemas.map(schema => {
+        const json = this.schemaToJsonSchema(schema);
+        return [JSON.stringify(json), json];
+      })
+    ).values()];
+
+    if (output.wrapped) {
+      return {
+        type: 'object',
+        properties: { result: variants.length === 1 ? variants[0] : { anyOf: variants } },
+      };
+    }
+
+    return variants.length === 1
+      ? variants[0] as Tool['outputSchema']
+      : { type: 'object', anyOf: variants };
+  }
+
+  /**
+   * Collect response schemas of all tool operations
+   *
+   * Why all-or-nothing: MCP clients reject results without structuredContent
+   * from tools that declare outputSchema. If any action has no JSON response
+   * schema (e.g., delete returning 204), the tool stays text-only.
+   * Composite tools aggregate several responses and are text-only too.
+   */
+  private resolveOutput(toolDef: ToolDefinition): ToolOutput | undefined {
+    if (toolDef.composite || !toolDef.operations) return undefined;
+
+    const schemas: SchemaInfo[] = [];
+    for (const [key, operationId] of Object.entries(toolDef.operations)) {
+      const operation = this.parser.getOperation(operationId);
+      const schema = operation && this.getSuccessResponseSchema(operation);
+      if (!schema) return undefined;
+
+      const fields = this.getResponseFields(toolDef, key);
+      schemas.push(fields ? this.pickFields(schema, fields) : schema);
+    }
+
+    const wrapped = schemas.some(schema => schema.type !== 'object' || schema.nullable || schema.types);
+    return { schemas, wrapped };
+  }
+
+  /**
+   * First success response with JSON content (200 before 201, ...)
+   */
+  private getSuccessResponseSchema(operation: OperationInfo): SchemaInfo | undefined {
+    const statuses = Object.keys(operation.responses || {}).sort();
+
+    for (const status of statuses) {
+      const content = operation.responses![status].content;
+      const mediaType = Object.keys(content).find(type => /[/+]json\b/i.test(type));
+      if (mediaType) {
+        return content[mediaType].schema;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find response_fields for operation key
+   *
+   * Why strip resource type: Fields are configured per action, but
+   * resource-specific operation keys look like "create_project".
+   */
+  private getResponseFields(toolDef: ToolDefinition, operationKey: string): string[] | undefined {
+    if (!toolDef.response_fields) return undefined;
+
+    const resourceTypes = toolDef.parameters['resource_type']?.enum || [];
+    const resourceType = resourceTypes.find(type => operationKey.endsWith(`_${type}`));
+    const action = resourceType
+      ? operationKey.slice(0, -(resourceType.length + 1))
+      : operationKey;
+
+    return toolDef.response_fields[action];
+  }
+
+  /**
+   * Restrict schema to response_fields (mirrors MCPServer.filterFields)
+   */
+  private pickFields(schema: SchemaInfo, fields: string[]): SchemaInfo {
+    if (schema.type === 'array' && schema.items) {
+      return { ...schema, items: this.pickFields(schema.items, fields) };
+    }
+
+    if (!schema.properties) return schema;
+
+    const properties: Record<string, SchemaInfo> = {};
+    for (const field of fields) {
+      if (schema.properties[field]) {
+        properties[field] = schema.properties[field];
+      }
+    }
+
+    return {
+      ...schema,
+      properties,
+      required: schema.required?.filter(name => fields.includes(name)),
+    };
+  }
+
+  /**
+   * Convert parsed schema to plain JSON Schema
+   *
+   * Why lossy: MCP clients validate structuredContent with strict Ajv
+   * (draft-07), which rejects OpenAPI formats (int32, date-time) and unknown
+   * keywords (discriminator, prefixItems). Output schema only needs to
+   * describe the shape, so those are dropped. oneOf becomes anyOf because
+   * API variants often overlap (same as SchemaValidator). required is
+   * dropped too: APIs omit fields their spec marks required, and a failed
+   * check fails the whole tool call on the client.
+   */
+  private schemaToJsonSchema(schema: SchemaInfo): Record<string, unknown> {
+    const json: Record<string, unknown> = {};
+
+    const types = schema.types || (schema.type ? [schema.type] : []);
+    if (types.length > 0) {
+      const all = schema.nullable && !types.includes('null') ? [...types, 'null'] : types;
+      json.type = all.length === 1 ? all[0] : all;
+    }
+
+    if (schema.description) {
+      json.description = schema.description;
+    }
+
+    if (schema.enum) {
+      json.enum = schema.nullable && !schema.enum.includes(null) ? [...schema.enum, null] : schema.enum;
+    }
+
+    if (schema.const !== undefined) {
+      json.const = schema.const;
+    }
+
+    // Tuples (prefixItems) are left unconstrained
+    if (schema.items && !schema.prefixItems) {
+      json.items = this.schemaToJsonSchema(schema.items);
+    }
+
+    if (schema.properties) {
+      json.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, prop]) => [name, this.schemaToJsonSchema(prop)])
+      );
+    }
+
+    const variants = schema.oneOf || schema.anyOf;
+    if (variants) {
+      json.anyOf = variants.map(variant => this.schemaToJsonSchema(variant));
+    }
+
+    return json;
+  }
+
   /**
    * Convert parameter definition to JSON Schema
    */
@@ -148,3 +348,8 @@ export class ToolGenerator {
   }
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
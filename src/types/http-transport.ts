@@ -7,6 +7,7 @@
 
 import type { Request as ExpressRequest, Response } from 'express';
 import type { OAuthConfig, AuthInterceptor } from './profile.js';
+import type { DispatcherResolver } from '../outbound-agents.js';
 
 export interface SessionData {
   id: string;
@@ -47,6 +48,7 @@ export interface HttpTransportConfig {
   oauthConfig?: OAuthConfig; // OAuth 2.0 configuration (optional)
   baseUrl?: string; // Base URL for API (for token validation)
   authConfigs?: AuthInterceptor[]; // Auth configurations (for token validation)
+  dispatcherFor?: DispatcherResolver; // Proxy and TLS settings for outbound requests
 }
 
 export interface McpRequest extends ExpressRequest {
@@ -10,10 +10,34 @@ import type { OpenAPIV3 } from 'openapi-types';
 
 export interface OpenAPIIndex {
   spec: OpenAPIV3.Document;
+  specVersion: SpecVersion;
   operations: Map<string, OperationInfo>;
   paths: Map<string, PathInfo>;
+  webhooks: Map<string, OperationInfo>; // OpenAPI 3.1 only; not exposed as tools
 }
 
+/**
+ * JSON-serializable parser state (see IndexCache)
+ *
+ * Why paths instead of operations: Operations map is derived from paths and
+ * would duplicate every OperationInfo on disk.
+ */
+export interface ParserSnapshot {
+  spec: OpenAPIV3.Document;
+  specVersion: SpecVersion;
+  paths: PathInfo[];
+  webhooks: OperationInfo[];
+  sourceFiles: string[];
+}
+
+/**
+ * Schema dialect of loaded spec
+ *
+ * Why only two: Swagger 2.0 is upconverted to 3.0 on load. 3.1+ share
+ * JSON Schema 2020-12 semantics (type arrays, const, prefixItems).
+ */
+export type SpecVersion = '3.0' | '3.1';
+
 export interface OperationInfo {
   operationId: string;
   method: string;
@@ -22,7 +46,43 @@ export interface OperationInfo {
   description?: string;
   parameters: ParameterInfo[];
   requestBody?: RequestBodyInfo;
+  responses?: Record<string, ResponseInfo>; // Success (2xx) responses by status code
+  servers?: ServerInfo[]; // Operation- or path-level override of spec servers
   tags?: string[];
+  mcp?: McpExtensions; // x-mcp-* vendor extensions
+}
+
+/**
+ * x-mcp-* vendor extensions for tool generation
+ *
+ * Why in spec: Spec owners curate the auto-generated default profile without
+ * maintaining a separate profile file.
+ *
+ * On parameters only ignore (hides parameter) and description apply.
+ */
+export interface McpExtensions {
+  ignore?: boolean; // x-mcp-ignore: no tool for operation / parameter not exposed
+  name?: string; // x-mcp-name: tool name (skips name shortening)
+  description?: string; // x-mcp-description: tool or parameter description
+  hiddenParams?: string[]; // x-mcp-hidden-params: parameters and body properties not exposed
+  responseFields?: string[]; // x-mcp-response-fields: fields kept in tool result
+}
+
+/**
+ * OpenAPI server with optional templated variables
+ *
+ * Example: { url: 'https://{region}.api.example.com/{version}', variables: { region: { default: 'eu' } } }
+ */
+export interface ServerInfo {
+  url: string;
+  description?: string;
+  variables?: Record<string, ServerVariableInfo>;
+}
+
+export interface ServerVariableInfo {
+  default: string;
+  enum?: string[];
+  description?: string;
 }
 
 export interface PathInfo {
@@ -36,6 +96,7 @@ export interface ParameterInfo {
   required: boolean;
   schema: SchemaInfo;
   description?: string;
+  mcp?: McpExtensions;
 }
 
 export interface RequestBodyInfo {
@@ -43,13 +104,40 @@ export interface RequestBodyInfo {
   content: Record<string, { schema: SchemaInfo }>;
 }
 
+export interface ResponseInfo {
+  description?: string;
+  content: Record<string, { schema: SchemaInfo }>;
+}
+
 export interface SchemaInfo {
-  type?: string;
+  type?: string; // Primary non-null type
+  types?: string[]; // All non-null types when schema allows several (3.1 type arrays)
+  nullable?: boolean; // 3.0 nullable: true, or "null" in 3.1 type array/variants
   format?: string;
+  contentMediaType?: string; // 3.1 binary content (e.g., file upload fields)
+  description?: string;
   enum?: unknown[];
   items?: SchemaInfo;
   properties?: Record<string, SchemaInfo>;
   required?: string[];
   default?: unknown;
+  const?: unknown;
+  examples?: unknown[];
+  prefixItems?: SchemaInfo[]; // Tuple validation; items applies to remaining elements
+  oneOf?: SchemaInfo[];
+  anyOf?: SchemaInfo[];
+  discriminator?: DiscriminatorInfo;
+  refName?: string; // Component name when resolved from $ref (e.g., "API_Entities_Badge")
+}
+
+/**
+ * Polymorphism hint for oneOf/anyOf
+ *
+ * Why: Lets validator pick the matching variant by property value instead of
+ * trying every variant. Mapping values are component refs or names.
+ */
+export interface DiscriminatorInfo {
+  propertyName: string;
+  mapping?: Record<string, string>;
 }
 
@@ -33,6 +33,9 @@ export interface ToolDefinition {
   
   // Response field filtering (reduces verbosity for list operations)
   response_fields?: Record<string, string[]>; // e.g., {"list": ["id", "name", "path"]}
+
+  // Auto-pagination of GET operations (merged into single result)
+  pagination?: PaginationConfig;
 }
 
 export interface ParameterDefinition {
@@ -50,13 +53,52 @@ export interface CompositeStep {
   call: string; // e.g., "GET /projects/{id}/merge_requests/{iid}"
   store_as: string; // JSONPath-like: "merge_request", "merge_request.comments"
   depends_on?: string[]; // Optional dependencies on other steps' store_as values
+  pagination?: PaginationConfig; // Fetch all pages of this step's GET call
+}
+
+/**
+ * Auto-pagination of list operations
+ *
+ * - link: follow rel="next" of Link header (GitLab, GitHub)
+ * - page: page/per_page params, stops at total pages header or short page
+ * - offset: offset/limit params, stops at short or empty page
+ * - cursor: next cursor from response body or header, sent as cursor param
+ *
+ * Fetching stops at max_pages or once max_items are collected; the result
+ * then carries a continuation hint with params for the next call.
+ */
+export interface PaginationConfig {
+  type: 'link' | 'page' | 'offset' | 'cursor';
+  actions?: string[]; // Actions to paginate (default: all GET operations of tool)
+  items_path?: string; // Dot path to items array in body (default: body is the array)
+  max_pages?: number; // default: 10
+  max_items?: number; // default: unlimited
+  page_size?: number; // Sent as per_page/limit unless caller sets it
+  page_param?: string; // default: 'page'
+  per_page_param?: string; // default: 'per_page'
+  total_pages_header?: string; // default: 'x-total-pages'
+  offset_param?: string; // default: 'offset'
+  limit_param?: string; // default: 'limit'
+  cursor_param?: string; // default: 'cursor'
+  next_cursor_path?: string; // Dot path to next cursor in body (e.g., "meta.next_cursor")
+  next_cursor_header?: string; // Header with next cursor (alternative to next_cursor_path)
 }
 
 export interface InterceptorConfig {
   auth?: AuthInterceptor | AuthInterceptor[]; // Single or multiple auth methods
   base_url?: BaseUrlConfig;
   rate_limit?: RateLimitConfig;
+  upstream_limit?: UpstreamLimitConfig;
   retry?: RetryConfig;
+  cache?: CacheConfig;
+  dedup?: DedupConfig;
+  circuit_breaker?: CircuitBreakerConfig;
+  timeout?: TimeoutConfig;
+  idempotency?: IdempotencyConfig;
+  headers?: HeadersConfig;
+  proxy?: ProxyConfig;
+  tls?: TlsConfig;
+  connection_pool?: ConnectionPoolConfig;
   array_format?: 'brackets' | 'indices' | 'repeat' | 'comma'; // default: 'repeat'
 }
 
@@ -178,19 +220,181 @@ export interface OAuthConfig {
   revocation_endpoint?: string;
 }
 
+/**
+ * Base URL selection
+ *
+ * Priority: value_from_env > default > spec server (picked by
+ * server_description or server_index, variables substituted)
+ */
 export interface BaseUrlConfig {
-  value_from_env: string;
+  value_from_env?: string; // Env var with full base URL
   default?: string;
+  server_index?: number; // Spec server by position (default: 0)
+  server_description?: string; // Spec server by description (case-insensitive)
+  variables?: Record<string, ServerVariableConfig>; // Values for server URL variables
+  operation_servers?: boolean; // Path/operation servers override value_from_env/default too (default: false)
 }
 
+export interface ServerVariableConfig {
+  value_from_env?: string;
+  default?: string; // Overrides variable default from spec
+}
+
+/**
+ * Per-client token bucket, optionally paced by upstream quota headers
+ *
+ * adaptive: learn remaining quota from RateLimit-* / X-RateLimit-* headers
+ * per token, slow down within reserve and pause until reset after 429.
+ */
 export interface RateLimitConfig {
   max_requests_per_minute: number;
   overrides?: Record<string, { max_requests_per_minute: number }>;
+  adaptive?: boolean; // default: false
+  reserve_ratio?: number; // Pace requests once remaining quota is below this share of limit, default: 0.1
+  max_wait_ms?: number; // Fail with RateLimitError instead of waiting longer for quota, default: 60000
+}
+
+/**
+ * Process-wide limits per upstream host, shared by all sessions
+ *
+ * Unlike rate_limit (per session), these cap what the whole server sends to
+ * one API. Waiting requests are admitted round-robin across sessions.
+ */
+export interface UpstreamLimitConfig {
+  max_in_flight?: number; // Concurrent requests per upstream, default: unlimited
+  max_requests_per_minute?: number; // Per upstream, default: unlimited
+  queue_timeout_ms?: number; // Max wait for a slot before RateLimitError, default: 30000
 }
 
+/**
+ * Upstream request timeouts
+ *
+ * request_ms aborts a single fetch (including reading the body); total_ms is
+ * the deadline for the whole call, retries and backoff included.
+ */
+export interface TimeoutConfig {
+  request_ms?: number; // Per attempt
+  total_ms?: number; // Across retries
+  overrides?: Record<string, { request_ms?: number; total_ms?: number }>; // Per operationId
+}
+
+/**
+ * Retries with backoff for safe methods and requests with Idempotency-Key
+ *
+ * Retry-After (and rate limit reset on 429) raises the delay; thrown errors
+ * retry only for retry_on_status codes, timeouts and transport failures.
+ */
 export interface RetryConfig {
   max_attempts: number;
-  backoff_ms: number[]; // e.g., [1000, 2000, 4000]
+  backoff_ms?: number[]; // Fixed schedule, e.g., [1000, 2000, 4000]; overrides exponential backoff
   retry_on_status: number[];
+  retry_methods?: string[]; // default: ['GET', 'HEAD', 'OPTIONS']; others need Idempotency-Key header
+  base_delay_ms?: number; // Exponential backoff start, default: 500
+  max_delay_ms?: number; // Exponential backoff cap, default: 30000
+  jitter?: boolean; // Randomize delay between 50-100%, default: true
+  max_retry_after_ms?: number; // Give up when server asks to wait longer, default: 60000
 }
 
+/**
+ * Response cache for GET requests
+ *
+ * Entries are scoped per auth token and revalidated with ETag/Last-Modified
+ * once TTL expires. Writes (POST/PUT/PATCH/DELETE) drop cached GETs on the
+ * same path, its ancestors and descendants.
+ */
+export interface CacheConfig {
+  ttl_seconds: number; // Freshness of cached responses
+  max_entries?: number; // default: 1000
+  max_bytes?: number; // Approximate total body size, default: 52428800 (50 MB)
+  overrides?: Record<string, { ttl_seconds: number }>; // Per operationId, 0 disables caching
+}
+
+/**
+ * Single-flight deduplication of concurrent identical GET/HEAD requests
+ *
+ * Requests with the same method, URL and headers (including auth) that are
+ * in flight at the same time share one upstream call.
+ */
+export interface DedupConfig {
+  exclude_operations?: string[]; // operationIds always sent separately
+}
+
+/**
+ * Circuit breaker per operationId or per host
+ *
+ * Opens after consecutive upstream failures (network errors, 5xx) and rejects
+ * requests until cool-down passes, then lets one trial request through.
+ */
+export interface CircuitBreakerConfig {
+  scope?: 'operation' | 'host'; // default: 'operation'
+  failure_threshold?: number; // Consecutive failures to open, default: 5
+  cooldown_ms?: number; // Open duration before trial request, default: 30000
+}
+
+export type IdempotencyKeyScope = 'call' | 'arguments';
+
+/**
+ * Idempotency-Key header for operations whose API supports it
+ *
+ * Key is generated once per tool call and reused by retry attempts, which
+ * also makes the retry interceptor retry these (otherwise unsafe) requests.
+ */
+export interface IdempotencyConfig {
+  header_name?: string; // default: 'Idempotency-Key'
+  scope?: IdempotencyKeyScope; // default: 'call'
+  operations: Record<string, { header_name?: string; scope?: IdempotencyKeyScope }>; // operationIds sending a key
+}
+
+/**
+ * Static and templated headers sent on every request
+ *
+ * Values may contain ${env:NAME}, ${session.id} and ${correlation_id}.
+ * Headers already on the request (Content-Type, header parameters from tool
+ * arguments) win; auth headers are set after these.
+ */
+export interface HeadersConfig {
+  values?: Record<string, string>; // Sent on every request
+  operations?: Record<string, Record<string, string>>; // Per operationId, override values
+  sensitive?: string[]; // Header names redacted in logs
+}
+
+/**
+ * Outbound HTTP(S) proxy for upstream API, token validation and OAuth calls
+ *
+ * Falls back to HTTPS_PROXY/HTTP_PROXY and NO_PROXY environment variables.
+ */
+export interface ProxyConfig {
+  url?: string; // e.g., "http://proxy.corp:3128"
+  no_proxy?: string[]; // Hosts, ".domain" suffixes or "*" sent directly
+}
+
+export interface TlsClientConfig {
+  ca_file?: string; // PEM bundle trusted in addition to Node's CAs
+  cert_file?: string; // PEM client certificate for mTLS
+  key_file?: string; // PEM client private key for mTLS
+  passphrase_from_env?: string; // Env var with key passphrase
+}
+
+/**
+ * Extra CAs and mTLS client certificate for outbound connections
+ *
+ * Falls back to API_CA_FILE, API_CLIENT_CERT_FILE, API_CLIENT_KEY_FILE and
+ * API_CLIENT_KEY_PASSPHRASE environment variables.
+ */
+export interface TlsConfig extends TlsClientConfig {
+  overrides?: Record<string, TlsClientConfig>; // By URL prefix (longest match), e.g., "https://uploads.example.com"
+}
+
+/**
+ * Upstream connection pool, shared by all sessions
+ *
+ * One pool per origin; requests wait for a free connection once
+ * max_connections_per_origin sockets are busy.
+ */
+export interface ConnectionPoolConfig {
+  max_connections_per_origin?: number; // default: unlimited
+  keep_alive_timeout_ms?: number; // Idle socket lifetime without server hint, default: 4000
+  keep_alive_max_timeout_ms?: number; // Cap on server Keep-Alive hint, default: 600000
+  pipelining?: number; // Requests in flight per HTTP/1.1 connection, default: 1
+  http2?: boolean; // Negotiate HTTP/2 via ALPN on HTTPS, default: false
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for process-wide upstream limiter
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { UpstreamLimiter, type ReleaseFn } from './upstream-limiter.js';
+import { RateLimitError } from './errors.js';
+
+describe('UpstreamLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue requests beyond max_in_flight until a slot is released', async () => {
+    const limiter = new UpstreamLimiter({ max_in_flight: 1 });
+
+    const release = await limiter.acquire('api.example.com', 'a');
+    let admitted = false;
+    const waiting = limiter.acquire('api.example.com', 'a').then(r => { admitted = true; return r; });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(admitted).toBe(false);
+    expect(limiter.state('api.example.com')).toEqual({ inFlight: 1, queued: 1 });
+    expect(await limiter.acquire('other.example.com', 'a')).toBeTypeOf('function');
+
+    release();
+    await waiting;
+    expect(limiter.state('api.example.com')).toEqual({ inFlight: 1, queued: 0 });
+  });
+
+  it('should admit waiting requests round-robin across sessions', async () => {
+    const limiter = new UpstreamLimiter({ max_in_flight: 1 });
+    const order: string[] = [];
+
+    let release = await limiter.acquire('api', 'busy');
+    const labels = ['busy-1', 'busy-2', 'busy-3', 'quiet-1'];
+    const waiting = labels.map(label => limiter.acquire('api', label.split('-')[0]).then(r => {
+      order.push(label);
+      return r;
+    }));
+
+    for (let i = 0; i < labels.length; i++) {
+      release();
+      await vi.advanceTimersByTimeAsync(0);
+      release = await waiting[labels.indexOf(order[i])];
+    }
+
+    expect(order).toEqual(['busy-1', 'quiet-1', 'busy-2', 'busy-3']);
+  });
+
+  it('should spread requests by max_requests_per_minute', async () => {
+    const limiter = new UpstreamLimiter({ max_requests_per_minute: 2, queue_timeout_ms: 60000 });
+
+    await limiter.acquire('api', 'a');
+    await limiter.acquire('api', 'b');
+    let admitted = false;
+    const third = limiter.acquire('api', 'c').then(() => { admitted = true; });
+
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(admitted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await third;
+    expect(admitted).toBe(true);
+  });
+
+  it('should reject with RateLimitError after queue timeout', async () => {
+    const limiter = new UpstreamLimiter({ max_in_flight: 1, queue_timeout_ms: 500 });
+    const release: ReleaseFn = await limiter.acquire('api', 'a');
+
+    const waiting = limiter.acquire('api', 'b');
+    const shorter = limiter.acquire('api', 'c', 100);
+    const assertions = [
+      expect(waiting).rejects.toThrow(RateLimitError),
+      expect(shorter).rejects.toThrow('waited 100ms'),
+    ];
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(assertions);
+
+    expect(limiter.state('api')).toEqual({ inFlight: 1, queued: 0 });
+    release();
+    release();
+    expect(limiter.state('api')).toEqual({ inFlight: 0, queued: 0 });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Process-wide limiter for upstream API requests
+ *
+ * Why: Rate limit interceptor keeps its token bucket per InterceptorChain,
+ * i.e. per session; 50 sessions can each send the full rate to one API.
+ * This limiter is shared by all clients and caps, per upstream host:
+ * - requests in flight (max_in_flight)
+ * - request rate (max_requests_per_minute, token bucket)
+ *
+ * Fair queuing: Waiting requests queue per session and are admitted
+ * round-robin, so one busy session can't starve the others. Requests that
+ * wait longer than queue_timeout_ms fail with RateLimitError (not retried).
+ */
+
+import type { UpstreamLimitConfig } from './types/profile.js';
+import { TIME } from './constants.js';
+import { RateLimitError } from './errors.js';
+
+const DEFAULT_QUEUE_TIMEOUT_MS = 30000;
+
+export type ReleaseFn = () => void;
+
+interface Waiter {
+  admit: (release: ReleaseFn) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface Upstream {
+  inFlight: number;
+  tokens: number;
+  lastRefill: number;
+  queues: Map<string, Waiter[]>; // Per session; Map order is the round-robin order
+  refillTimer?: NodeJS.Timeout;
+}
+
+export class UpstreamLimiter {
+  private upstreams = new Map<string, Upstream>();
+  private maxInFlight: number;
+  private tokensPerMs?: number;
+  private maxTokens: number;
+  private queueTimeoutMs: number;
+
+  constructor(config: UpstreamLimitConfig) {
+    this.maxInFlight = config.max_in_flight ?? Infinity;
+    this.maxTokens = config.max_requests_per_minute ?? Infinity;
+    this.tokensPerMs = config.max_requests_per_minute !== undefined
+      ? config.max_requests_per_minute / TIME.MS_PER_MINUTE
+      : undefined;
+    this.queueTimeoutMs = config.queue_timeout_ms ?? DEFAULT_QUEUE_TIMEOUT_MS;
+  }
+
+  /**
+   * Wait for a slot on upstream; call returned function when request is done
+   *
+   * @param timeoutMs Max queue wait, default queue_timeout_ms (lower it to
+   * respect the request's deadline)
+   */
+  acquire(upstreamKey: string, session: string, timeoutMs: number = this.queueTimeoutMs): Promise<ReleaseFn> {
+    const upstream = this.getUpstream(upstreamKey);
+
+    if (upstream.queues.size === 0 && this.canAdmit(upstream)) {
+      return Promise.resolve(this.admit(upstreamKey, upstream));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        admit: resolve,
+        timer: setTimeout(() => {
+          this.removeWaiter(upstream, session, waiter);
+          const error = new RateLimitError(
+            `Upstream ${upstreamKey} is busy: request waited ${timeoutMs}ms in queue`
+          );
+          // Why local: Not an API 429, so retry interceptor must not queue it again
+          error.details = { ...error.details, local: true };
+          reject(error);
+        }, Math.max(0, timeoutMs)),
+      };
+
+      const queue = upstream.queues.get(session) ?? [];
+      queue.push(waiter);
+      upstream.queues.set(session, queue);
+      this.dispatch(upstreamKey, upstream);
+    });
+  }
+
+  /**
+   * Requests in flight and waiting in queue (for metrics)
+   */
+  state(upstreamKey: string): { inFlight: number; queued: number } {
+    const upstream = this.upstreams.get(upstreamKey);
+    if (!upstream) {
+      return { inFlight: 0, queued: 0 };
+    }
+    let queued = 0;
+    for (const queue of upstream.queues.values()) {
+      queued += queue.length;
+    }
+    return { inFlight: upstream.inFlight, queued };
+  }
+
+  private getUpstream(key: string): Upstream {
+    let upstream = this.upstreams.get(key);
+    if (!upstream) {
+      upstream = { inFlight: 0, tokens: this.maxTokens, lastRefill: Date.now(), queues: new Map() };
+      this.upstreams.set(key, upstream);
+    }
+    return upstream;
+  }
+
+  private canAdmit(upstream: Upstream): boolean {
+    if (upstream.inFlight >= this.maxInFlight) {
+      return false;
+    }
+    if (this.tokensPerMs !== undefined) {
+      const now = Date.now();
+      upstream.tokens = Math.min(this.maxTokens, upstream.tokens + (now - upstream.lastRefill) * this.tokensPerMs);
+      upstream.lastRefill = now;
+    }
+    return upstream.tokens >= 1;
+  }
+
+  private admit(key: string, upstream: Upstream): ReleaseFn {
+    upstream.inFlight++;
+    upstream.tokens--;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      upstream.inFlight--;
+      this.dispatch(key, upstream);
+    };
+  }
+
+  /**
+   * Admit queued requests round-robin across sessions while slots are free
+   *
+   * When only the rate blocks, a timer wakes the queue once a token refills.
+   */
+  private dispatch(key: string, upstream: Upstream): void {
+    while (upstream.queues.size > 0 && this.canAdmit(upstream)) {
+      const [session, queue] = upstream.queues.entries().next().value!;
+      const waiter = queue.shift()!;
+
+      // Move session to the back, so the next admission goes to another session
+      upstream.queues.delete(session);
+      if (queue.length > 0) {
+        upstream.queues.set(session, queue);
+      }
+
+      clearTimeout(waiter.timer);
+      waiter.admit(this.admit(key, upstream));
+    }
+
+    const rateLimited = upstream.queues.size > 0 && upstream.inFlight < this.maxInFlight;
+    if (rateLimited && !upstream.refillTimer && this.tokensPerMs !== undefined) {
+      const waitMs = Math.ceil((1 - upstream.tokens) / this.tokensPerMs);
+      upstream.refillTimer = setTimeout(() => {
+        upstream.refillTimer = undefined;
+        this.dispatch(key, upstream);
+      }, waitMs);
+    }
+  }
+
+  private removeWaiter(upstream: Upstream, session: string, waiter: Waiter): void {
+    const queue = upstream.queues.get(session);
+    if (!queue) return;
+    const index = queue.indexOf(waiter);
+    if (index >= 0) {
+      queue.splice(index, 1);
+    }
+    if (queue.length === 0) {
+      upstream.queues.delete(session);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Tests for upstream quota learned from rate limit headers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { UpstreamQuotas } from './upstream-quota.js';
+
+describe('UpstreamQuotas', () => {
+  const now = 1_700_000_000_000;
+
+  it('should not delay until quota is known', () => {
+    const quotas = new UpstreamQuotas();
+
+    expect(quotas.reserve('api', 'a', now)).toBe(0);
+    quotas.update('api', 'a', { 'content-type': 'application/json' }, now);
+    expect(quotas.reserve('api', 'a', now)).toBe(0);
+    expect(quotas.snapshot('api', 'a', now)).toBeUndefined();
+  });
+
+  it('should not delay while remaining is above reserve', () => {
+    const quotas = new UpstreamQuotas(0.1);
+    quotas.update('api', 'a', { 'ratelimit-limit': '100', 'ratelimit-remaining': '50', 'ratelimit-reset': '60' }, now);
+
+    expect(quotas.reserve('api', 'a', now)).toBe(0);
+    expect(quotas.snapshot('api', 'a', now)).toEqual({ limit: 100, remaining: 49, resetInSeconds: 60 });
+  });
+
+  it('should spread remaining requests until reset within reserve', () => {
+    const quotas = new UpstreamQuotas(0.1);
+    quotas.update('api', 'a', { 'x-ratelimit-limit': '100', 'x-ratelimit-remaining': '4', 'x-ratelimit-reset': '40' }, now);
+
+    expect(quotas.reserve('api', 'a', now)).toBe(0);
+    expect(quotas.reserve('api', 'a', now)).toBe(10000);
+    expect(quotas.reserve('api', 'a', now)).toBeGreaterThan(10000);
+  });
+
+  it('should wait until reset when quota is exhausted', () => {
+    const quotas = new UpstreamQuotas();
+    quotas.update('api', 'a', { 'ratelimit-remaining': '0', 'ratelimit-reset': '30' }, now);
+
+    expect(quotas.reserve('api', 'a', now)).toBe(30000);
+    expect(quotas.reserve('api', 'b', now)).toBe(0);
+    expect(quotas.reserve('api', 'a', now + 30000)).toBe(0);
+  });
+
+  it('should pause until Retry-After after 429', () => {
+    const quotas = new UpstreamQuotas();
+    quotas.update('api', 'a', { 'ratelimit-limit': '100', 'ratelimit-remaining': '80', 'ratelimit-reset': '60' }, now);
+
+    quotas.pause('api', 'a', 5000, now);
+    expect(quotas.reserve('api', 'a', now)).toBe(5000);
+    expect(quotas.snapshot('api', 'a', now)).toEqual({ limit: 100, remaining: 0, resetInSeconds: 5 });
+  });
+
+  it('should track quota per upstream host', () => {
+    const quotas = new UpstreamQuotas();
+    quotas.update('gitlab', 'a', { 'ratelimit-remaining': '0', 'ratelimit-reset': '30' }, now);
+
+    expect(quotas.reserve('gitlab', 'a', now)).toBe(30000);
+    expect(quotas.reserve('github', 'a', now)).toBe(0);
+  });
+
+  it('should report only quotas not yet reset and drop expired ones', () => {
+    const quotas = new UpstreamQuotas();
+    quotas.update('api', 'a', { 'ratelimit-limit': '100', 'ratelimit-remaining': '10', 'ratelimit-reset': '30' }, now);
+    quotas.update('api', 'b', { 'ratelimit-remaining': '5', 'ratelimit-reset': '90' }, now);
+
+    expect(quotas.stats(now + 60000)).toEqual([
+      { upstream: 'api', identity: 'b', limit: undefined, remaining: 5, resetInSeconds: 30 },
+    ]);
+    expect(quotas.snapshot('api', 'a', now)).toBeUndefined();
+  });
+
+  it('should hash token for identity', () => {
+    const identity = UpstreamQuotas.identity('secret-token');
+
+    expect(identity).toMatch(/^[0-9a-f]{16}$/);
+    expect(identity).not.toContain('secret');
+    expect(UpstreamQuotas.identity('secret-token')).toBe(identity);
+    expect(UpstreamQuotas.identity(undefined)).toBe('anonymous');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Upstream rate limit quota learned from response headers
+ *
+ * Why: GitLab and GitHub announce remaining requests and reset time in
+ * RateLimit-* / X-RateLimit-* headers. The quota belongs to the token and is
+ * often shared with other clients, so a static max_requests_per_minute can't
+ * predict it. Pacing by the headers avoids running into 429s.
+ *
+ * Per upstream host and token identity (hashed), since sessions with the
+ * same token share it, but two APIs behind one profile count separately:
+ * - remaining above reserve: no delay
+ * - remaining within reserve: spread remaining requests evenly until reset
+ * - remaining exhausted or after 429: pause until reset / Retry-After
+ */
+
+import crypto from 'crypto';
+import { TIME } from './constants.js';
+import { parseRateLimitReset } from './retry-policy.js';
+
+const DEFAULT_RESERVE_RATIO = 0.1;
+
+export interface QuotaSnapshot {
+  limit?: number;
+  remaining: number;
+  resetInSeconds: number;
+}
+
+export interface UpstreamQuotaStats extends QuotaSnapshot {
+  upstream: string;
+  identity: string;
+}
+
+interface Quota {
+  upstream: string;
+  identity: string;
+  limit?: number;
+  remaining?: number;
+  resetAt?: number;
+  nextAt?: number; // Next paced request slot
+}
+
+export class UpstreamQuotas {
+  private quotas = new Map<string, Quota>();
+
+  constructor(private reserveRatio: number = DEFAULT_RESERVE_RATIO) {}
+
+  /**
+   * Identity of token holder; token is hashed so it can be used as metric label
+   */
+  static identity(token: string | undefined): string {
+    return token ? crypto.createHash('sha256').update(token).digest('hex').slice(0, 16) : 'anonymous';
+  }
+
+  /**
+   * Claim next request for identity; returns ms to wait before sending it
+   */
+  reserve(upstream: string, identity: string, now: number = Date.now()): number {
+    const quota = this.quotas.get(quotaKey(upstream, identity));
+    if (!quota) return 0;
+
+    if (quota.remaining === undefined || quota.resetAt === undefined || quota.resetAt <= now) {
+      return 0;
+    }
+    if (quota.remaining <= 0) {
+      return quota.resetAt - now;
+    }
+
+    const available = quota.remaining--;
+    if (available > (quota.limit ?? 0) * this.reserveRatio) {
+      return 0;
+    }
+
+    const interval = (quota.resetAt - now) / available;
+    const start = Math.max(now, quota.nextAt ?? now);
+    quota.nextAt = start + interval;
+    return Math.ceil(start - now);
+  }
+
+  /**
+   * Learn quota from response headers (no-op when API sends none)
+   */
+  update(upstream: string, identity: string, headers: Record<string, string>, now: number = Date.now()): void {
+    const remaining = parseInt(headers['ratelimit-remaining'] ?? headers['x-ratelimit-remaining'], 10);
+    const resetMs = parseRateLimitReset(headers, now);
+    if (Number.isNaN(remaining) || resetMs === undefined) return;
+
+    const limit = parseInt(headers['ratelimit-limit'] ?? headers['x-ratelimit-limit'], 10);
+    const quota = this.getQuota(upstream, identity, now);
+    quota.remaining = remaining;
+    quota.resetAt = now + resetMs;
+    quota.limit = Number.isNaN(limit) ? undefined : limit;
+  }
+
+  /**
+   * Stop sending after 429: until Retry-After, else until known reset
+   */
+  pause(upstream: string, identity: string, retryAfterMs: number | undefined, now: number = Date.now()): void {
+    const quota = this.getQuota(upstream, identity, now);
+    quota.remaining = 0;
+    if (retryAfterMs !== undefined) {
+      quota.resetAt = now + retryAfterMs;
+    }
+  }
+
+  /**
+   * Current quota for error messages and metrics (undefined until learned)
+   */
+  snapshot(upstream: string, identity: string, now: number = Date.now()): QuotaSnapshot | undefined {
+    const quota = this.quotas.get(quotaKey(upstream, identity));
+    return quota && toSnapshot(quota, now);
+  }
+
+  /**
+   * Quotas not yet reset, for metrics; expired entries are dropped
+   *
+   * Why drop: Tokens rotate per session and refresh, so entries (and metric
+   * series) of old tokens would otherwise accumulate forever.
+   */
+  stats(now: number = Date.now()): UpstreamQuotaStats[] {
+    this.prune(now);
+    return [...this.quotas.values()].flatMap(quota => {
+      const snapshot = toSnapshot(quota, now);
+      return snapshot ? [{ upstream: quota.upstream, identity: quota.identity, ...snapshot }] : [];
+    });
+  }
+
+  private getQuota(upstream: string, identity: string, now: number): Quota {
+    const key = quotaKey(upstream, identity);
+    let quota = this.quotas.get(key);
+    if (!quota) {
+      this.prune(now);
+      quota = { upstream, identity };
+      this.quotas.set(key, quota);
+    }
+    return quota;
+  }
+
+  /**
+   * Drop quotas past reset (or never learned): they no longer delay requests
+   */
+  private prune(now: number): void {
+    for (const [key, quota] of this.quotas) {
+      if (quota.resetAt === undefined || quota.resetAt <= now) {
+        this.quotas.delete(key);
+      }
+    }
+  }
+}
+
+function quotaKey(upstream: string, identity: string): string {
+  return `${upstream} ${identity}`;
+}
+
+function toSnapshot(quota: Quota, now: number): QuotaSnapshot | undefined {
+  if (quota.remaining === undefined) return undefined;
+
+  return {
+    limit: quota.limit,
+    remaining: Math.max(0, quota.remaining),
+    resetInSeconds: Math.max(0, Math.ceil(((quota.resetAt ?? now) - now) / TIME.MS_PER_SECOND)),
+  };
+}